@@ -0,0 +1,218 @@
+/**
+ * Auto-fix mode: commits the edits Claude made to the working tree, pushes
+ * them to a branch and opens (or updates) a merge request describing them.
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { gitlabRequest, projectPath, type GitLabApiConfig } from "./gitlab-api";
+
+const execFileAsync = promisify(execFile);
+
+export type ChangedPath = {
+  status: string;
+  path: string;
+};
+
+export type CommitOptions = {
+  cwd?: string;
+  branch: string;
+  pushUrl: string;
+  authorName: string;
+  authorEmail: string;
+  commitMessage: string;
+  // The branch belongs to auto-fix, so each run replaces what an earlier run
+  // pushed there instead of requiring a fast-forward
+  replaceBranch?: boolean;
+  // Files written by the runner itself that must never be committed
+  excludePaths: string[];
+};
+
+export type AutoFixResult =
+  | { status: "no_changes" }
+  | {
+      status: "pushed";
+      branch: string;
+      commitSha: string;
+      files: ChangedPath[];
+    };
+
+export type MergeRequestSummary = {
+  iid: number;
+  web_url: string;
+  created: boolean;
+};
+
+export class PushRejectedError extends Error {
+  constructor(
+    public readonly branch: string,
+    details: string,
+  ) {
+    super(
+      `Push to branch '${branch}' was rejected because it has commits that are not in this pipeline's checkout. Re-run the job on the latest commit to retry.\n${details}`,
+    );
+    this.name = "PushRejectedError";
+  }
+}
+
+export async function git(args: string[], cwd?: string): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd,
+    maxBuffer: 10 * 1024 * 1024,
+  });
+  return stdout.trim();
+}
+
+/**
+ * Builds an authenticated HTTPS remote for pushing. The token never appears
+ * in log output because the URL is only passed to git directly.
+ */
+export function buildPushUrl(
+  serverUrl: string,
+  projectPathWithNamespace: string,
+  token: string,
+): string {
+  const url = new URL(
+    `${serverUrl.replace(/\/+$/, "")}/${projectPathWithNamespace}.git`,
+  );
+  url.username = "oauth2";
+  url.password = token;
+  return url.toString();
+}
+
+export async function commitAndPushChanges(
+  options: CommitOptions,
+): Promise<AutoFixResult> {
+  const excludes = options.excludePaths.map((path) => `:(exclude)${path}`);
+  await git(["add", "--all", "--", ".", ...excludes], options.cwd);
+
+  const nameStatus = await git(
+    ["diff", "--cached", "--name-status", "--no-renames"],
+    options.cwd,
+  );
+  if (!nameStatus) {
+    return { status: "no_changes" };
+  }
+
+  const files = nameStatus.split("\n").map((line) => {
+    const [status, ...path] = line.split("\t");
+    return { status: status!, path: path.join("\t") };
+  });
+
+  // CI checkouts are usually a detached HEAD
+  await git(["checkout", "-B", options.branch], options.cwd);
+  await git(
+    [
+      "-c",
+      `user.name=${options.authorName}`,
+      "-c",
+      `user.email=${options.authorEmail}`,
+      "commit",
+      "--no-verify",
+      "-m",
+      options.commitMessage,
+    ],
+    options.cwd,
+  );
+  const commitSha = await git(["rev-parse", "HEAD"], options.cwd);
+
+  const ref = `refs/heads/${options.branch}`;
+  const pushArgs = ["push", options.pushUrl, `HEAD:${ref}`];
+  if (options.replaceBranch) {
+    // Only overwrite the commit seen here, never one pushed in the meantime;
+    // an empty lease requires that the branch does not exist yet
+    const heads = await git(
+      ["ls-remote", "--heads", options.pushUrl, ref],
+      options.cwd,
+    );
+    const remoteSha =
+      heads
+        .split("\n")
+        .map((line) => line.split("\t"))
+        .find(([, name]) => name === ref)?.[0] ?? "";
+    pushArgs.push(`--force-with-lease=${ref}:${remoteSha}`);
+  }
+
+  try {
+    await git(pushArgs, options.cwd);
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr ?? `${error}`;
+    if (/\[rejected\]|non-fast-forward|fetch first/.test(stderr)) {
+      throw new PushRejectedError(options.branch, stderr.trim());
+    }
+    throw new Error(
+      `Failed to push to branch '${options.branch}': ${stderr.trim()}`,
+    );
+  }
+
+  return { status: "pushed", branch: options.branch, commitSha, files };
+}
+
+const STATUS_NAMES: Record<string, string> = {
+  A: "added",
+  D: "deleted",
+  M: "modified",
+  T: "type changed",
+};
+
+export function formatAutoFixDescription(
+  files: ChangedPath[],
+  summary?: string,
+  pipelineUrl?: string,
+): string {
+  const source = pipelineUrl
+    ? `Claude Code made these changes in [pipeline](${pipelineUrl}).`
+    : "Claude Code made these changes.";
+  const fileList = files
+    .map(
+      (file) =>
+        `- ${STATUS_NAMES[file.status] ?? file.status}: \`${file.path}\``,
+    )
+    .join("\n");
+  const summarySection = summary ? `\n\n### Summary\n\n${summary}` : "";
+
+  return `${source}\n\n### Changed files\n\n${fileList}${summarySection}`;
+}
+
+export async function openOrUpdateMergeRequest(
+  config: GitLabApiConfig,
+  mergeRequest: {
+    sourceBranch: string;
+    targetBranch: string;
+    title: string;
+    description: string;
+  },
+): Promise<MergeRequestSummary> {
+  const existing = await gitlabRequest<{ iid: number; web_url: string }[]>(
+    config,
+    "GET",
+    projectPath(
+      config,
+      `/merge_requests?state=opened&source_branch=${encodeURIComponent(mergeRequest.sourceBranch)}`,
+    ),
+  );
+
+  if (existing[0]) {
+    const updated = await gitlabRequest<{ iid: number; web_url: string }>(
+      config,
+      "PUT",
+      projectPath(config, `/merge_requests/${existing[0].iid}`),
+      { description: mergeRequest.description },
+    );
+    return { iid: updated.iid, web_url: updated.web_url, created: false };
+  }
+
+  const created = await gitlabRequest<{ iid: number; web_url: string }>(
+    config,
+    "POST",
+    projectPath(config, "/merge_requests"),
+    {
+      source_branch: mergeRequest.sourceBranch,
+      target_branch: mergeRequest.targetBranch,
+      title: mergeRequest.title,
+      description: mergeRequest.description,
+      remove_source_branch: true,
+    },
+  );
+  return { iid: created.iid, web_url: created.web_url, created: true };
+}
@@ -0,0 +1,164 @@
+/**
+ * GitLab OIDC federation for AWS Bedrock.
+ *
+ * A GitLab ID token (declared with `id_tokens` in the job) is exchanged for
+ * temporary credentials through STS AssumeRoleWithWebIdentity. That call is
+ * authenticated by the token itself, so no AWS SDK or signing is needed.
+ */
+
+export type AwsCredentials = {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken: string;
+  expiration: string;
+};
+
+export type AssumeRoleRequest = {
+  endpoint: string;
+  roleArn: string;
+  roleSessionName: string;
+  webIdentityToken: string;
+  durationSeconds?: number;
+};
+
+// Variables checked for the ID token, in order; CI_JOB_JWT_V2 predates id_tokens
+export const AWS_ID_TOKEN_VARIABLES = ["AWS_ID_TOKEN", "CI_JOB_JWT_V2"];
+
+const MAX_SESSION_NAME_LENGTH = 64;
+
+export class StsError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+  ) {
+    super(
+      `STS AssumeRoleWithWebIdentity failed (${status} ${code}): ${message}`,
+    );
+    this.name = "StsError";
+  }
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match?.[1]?.trim();
+}
+
+export async function assumeRoleWithWebIdentity(
+  request: AssumeRoleRequest,
+): Promise<AwsCredentials> {
+  const params = new URLSearchParams({
+    Action: "AssumeRoleWithWebIdentity",
+    Version: "2011-06-15",
+    RoleArn: request.roleArn,
+    RoleSessionName: request.roleSessionName,
+    WebIdentityToken: request.webIdentityToken,
+  });
+  if (request.durationSeconds) {
+    params.set("DurationSeconds", String(request.durationSeconds));
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(request.endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: params.toString(),
+    });
+  } catch (error) {
+    throw new StsError(0, "NetworkError", `${error}`);
+  }
+
+  const xml = await response.text();
+  if (!response.ok) {
+    throw new StsError(
+      response.status,
+      xmlValue(xml, "Code") ?? "Unknown",
+      xmlValue(xml, "Message") ?? xml,
+    );
+  }
+
+  const credentials = {
+    accessKeyId: xmlValue(xml, "AccessKeyId"),
+    secretAccessKey: xmlValue(xml, "SecretAccessKey"),
+    sessionToken: xmlValue(xml, "SessionToken"),
+    expiration: xmlValue(xml, "Expiration"),
+  };
+  if (
+    !credentials.accessKeyId ||
+    !credentials.secretAccessKey ||
+    !credentials.sessionToken
+  ) {
+    throw new StsError(
+      response.status,
+      "InvalidResponse",
+      "Response did not contain credentials",
+    );
+  }
+  return credentials as AwsCredentials;
+}
+
+/**
+ * STS session names allow only [\w+=,.@-] and at most 64 characters.
+ */
+export function buildRoleSessionName(
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  const name =
+    env.AWS_ROLE_SESSION_NAME ||
+    `gitlab-${env.CI_PROJECT_ID || "project"}-${env.CI_JOB_ID || Date.now()}`;
+  return name.replace(/[^\w+=,.@-]/g, "-").slice(0, MAX_SESSION_NAME_LENGTH);
+}
+
+export function findIdToken(
+  env: NodeJS.ProcessEnv = process.env,
+): string | undefined {
+  const variable = AWS_ID_TOKEN_VARIABLES.find((name) => env[name]);
+  return variable && env[variable];
+}
+
+/**
+ * Assumes AWS_ROLE_ARN with the job's ID token. AWS_ENDPOINT_URL_STS
+ * overrides the regional STS endpoint, e.g. for a VPC endpoint.
+ */
+export async function getAwsOidcCredentials(
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<AwsCredentials> {
+  const roleArn = env.AWS_ROLE_ARN;
+  const webIdentityToken = findIdToken(env);
+  if (!roleArn || !webIdentityToken) {
+    throw new Error(
+      `AWS_ROLE_ARN and a GitLab ID token (${AWS_ID_TOKEN_VARIABLES.join(" or ")}) are required for AWS OIDC authentication.`,
+    );
+  }
+
+  let durationSeconds: number | undefined;
+  if (env.AWS_ROLE_DURATION_SECONDS) {
+    durationSeconds = parseInt(env.AWS_ROLE_DURATION_SECONDS, 10);
+    if (isNaN(durationSeconds) || durationSeconds <= 0) {
+      throw new Error(
+        `AWS_ROLE_DURATION_SECONDS must be a positive number, got: ${env.AWS_ROLE_DURATION_SECONDS}`,
+      );
+    }
+  }
+
+  return assumeRoleWithWebIdentity({
+    endpoint:
+      env.AWS_ENDPOINT_URL_STS ||
+      `https://sts.${env.AWS_REGION || "us-east-1"}.amazonaws.com`,
+    roleArn,
+    roleSessionName: buildRoleSessionName(env),
+    webIdentityToken,
+    durationSeconds,
+  });
+}
+
+export function awsCredentialsEnv(
+  credentials: AwsCredentials,
+): Record<string, string> {
+  return {
+    AWS_ACCESS_KEY_ID: credentials.accessKeyId,
+    AWS_SECRET_ACCESS_KEY: credentials.secretAccessKey,
+    AWS_SESSION_TOKEN: credentials.sessionToken,
+  };
+}
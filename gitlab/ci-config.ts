@@ -0,0 +1,284 @@
+/**
+ * Repository config file with named profiles
+ *
+ * Settings that jobs share are checked in once, in .claude/ci.yml by default
+ * (CLAUDE_CI_CONFIG), instead of being repeated as CI/CD variables:
+ *
+ *   defaults:
+ *     model: claude-sonnet-4
+ *   profiles:
+ *     review:
+ *       prompt_file: .claude/prompts/review.md
+ *       allowed_tools: [Read, Grep, Glob]
+ *       max_turns: 20
+ *       review_discussions: true
+ *
+ * Keys are the input names of src/inputs.ts; `variables` sets any other
+ * CI/CD variable whose name does not look like a credential, an endpoint, a
+ * GitLab variable or one that changes what the job runs. A job selects a
+ * profile with CLAUDE_PROFILE. Settings are applied in this order, each
+ * overriding the ones before it:
+ *
+ *   1. built-in defaults
+ *   2. `defaults` of the config file
+ *   3. the selected profile
+ *   4. CI/CD variables, unless empty
+ *   5. command-line flags
+ */
+
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+import { parse, stringify } from "yaml";
+import { INPUTS, parseInput, type InputDefinition } from "../src/inputs";
+import { isSecretVariableName } from "../src/prompt-variables";
+
+export const DEFAULT_CI_CONFIG_PATH = ".claude/ci.yml";
+
+// Credentials stay in masked CI/CD variables instead of the repository or argv
+export const SECRET_INPUTS: readonly string[] = [
+  "anthropic_api_key",
+  "claude_code_oauth_token",
+];
+
+// Variables a checked-in file must not set, because they would send requests
+// and credentials elsewhere or change what the job executes
+const PROTECTED_VARIABLES: { pattern: RegExp; reason: string }[] = [
+  {
+    pattern: /_(BASE_URL|API_URL|ENDPOINT|PROXY)$|^SSL_CERT_(FILE|DIR)$/i,
+    reason: "it changes where requests and credentials are sent",
+  },
+  {
+    pattern: /^(CI|GITLAB)_/,
+    reason: "it is reserved for GitLab's own variables",
+  },
+  {
+    pattern: /^(PATH|HOME|SHELL|ENV|BASH_ENV)$|^(LD|DYLD|NODE|BUN|GIT)_/,
+    reason: "it changes which programs and code the job runs",
+  },
+];
+
+type Settings = Record<string, unknown>;
+
+export type CiConfig = {
+  defaults?: Settings;
+  profiles?: Record<string, Settings>;
+};
+
+export type LoadedCiConfig = {
+  path: string;
+  profile?: string;
+  // CI/CD variables to fall back to, e.g. { CLAUDE_MAX_TURNS: "20" }
+  variables: Record<string, string>;
+};
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function parseCiConfig(text: string, source: string): CiConfig {
+  let config: unknown;
+  try {
+    config = parse(text);
+  } catch (error) {
+    throw new Error(`Invalid YAML in ${source}: ${error}`);
+  }
+  if (config === null || config === undefined) {
+    return {};
+  }
+  if (!isMapping(config)) {
+    throw new Error(`${source} must be a mapping`);
+  }
+
+  for (const key of Object.keys(config)) {
+    if (key !== "defaults" && key !== "profiles") {
+      throw new Error(
+        `Unknown key ${key} in ${source}; expected defaults or profiles`,
+      );
+    }
+  }
+  if (config.defaults != null && !isMapping(config.defaults)) {
+    throw new Error(`defaults in ${source} must be a mapping`);
+  }
+  if (config.profiles != null) {
+    if (!isMapping(config.profiles)) {
+      throw new Error(`profiles in ${source} must be a mapping`);
+    }
+    for (const [name, profile] of Object.entries(config.profiles)) {
+      if (!isMapping(profile)) {
+        throw new Error(`profiles.${name} in ${source} must be a mapping`);
+      }
+    }
+  }
+  return config as CiConfig;
+}
+
+function isScalar(value: unknown): value is string | number | boolean {
+  return ["string", "number", "boolean"].includes(typeof value);
+}
+
+// Writes a config value the way the input's CI/CD variable holds it
+function inputValue(
+  input: InputDefinition,
+  value: unknown,
+  label: string,
+): string {
+  if (isScalar(value)) {
+    return String(value);
+  }
+  if (Array.isArray(value) && input.separator && value.every(isScalar)) {
+    return value.map(String).join(input.separator);
+  }
+  if (isMapping(value) && input.format) {
+    return input.format === "json"
+      ? JSON.stringify(value)
+      : stringify(value).trimEnd();
+  }
+  throw new Error(
+    `${label} must be ${input.separator ? "a string or a list of strings" : input.format ? "a string or a mapping" : "a string, number or boolean"}`,
+  );
+}
+
+function settingsVariables(
+  settings: Settings,
+  prefix: string,
+  source: string,
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(settings)) {
+    const label = `${prefix}.${key} in ${source}`;
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    if (key === "variables") {
+      if (!isMapping(value)) {
+        throw new Error(`${label} must be a mapping`);
+      }
+      for (const [name, variable] of Object.entries(value)) {
+        if (!isScalar(variable)) {
+          throw new Error(
+            `${prefix}.${key}.${name} in ${source} must be a string`,
+          );
+        }
+        // Input variables such as CLAUDE_SESSION_KEY are only secret if their input is
+        const input = (INPUTS as readonly InputDefinition[]).find(
+          (input) => input.gitlab === name,
+        );
+        if (
+          input
+            ? SECRET_INPUTS.includes(input.name)
+            : isSecretVariableName(name)
+        ) {
+          throw new Error(
+            `${prefix}.${key}.${name} in ${source} must not be checked in; set ${name} as a masked CI/CD variable instead`,
+          );
+        }
+        const protectedVariable =
+          !input &&
+          PROTECTED_VARIABLES.find(({ pattern }) => pattern.test(name));
+        if (protectedVariable) {
+          throw new Error(
+            `${prefix}.${key}.${name} in ${source} must not be set in the config file; ${protectedVariable.reason}`,
+          );
+        }
+        variables[name] = String(variable);
+      }
+      continue;
+    }
+
+    const input = (INPUTS as readonly InputDefinition[]).find(
+      (input) => input.name === key && input.gitlab,
+    );
+    if (!input) {
+      throw new Error(`Unknown setting ${key} in ${prefix} of ${source}`);
+    }
+    if (SECRET_INPUTS.includes(key)) {
+      throw new Error(
+        `${label} must not be checked in; set ${input.gitlab} as a masked CI/CD variable instead`,
+      );
+    }
+    const text = inputValue(input, value, label);
+    if (text.trim()) {
+      parseInput(input, text, label);
+      variables[input.gitlab!] = text;
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Resolves the CI/CD variables set by the config file: `defaults`, then the
+ * selected profile on top.
+ */
+export function profileVariables(
+  config: CiConfig,
+  profile: string | undefined,
+  source: string,
+): Record<string, string> {
+  const variables = settingsVariables(
+    config.defaults ?? {},
+    "defaults",
+    source,
+  );
+  if (!profile) {
+    return variables;
+  }
+
+  const settings = config.profiles?.[profile];
+  if (!settings) {
+    const available = Object.keys(config.profiles ?? {});
+    throw new Error(
+      `Profile ${profile} is not defined in ${source}${available.length > 0 ? `; available profiles: ${available.join(", ")}` : ""}`,
+    );
+  }
+  return {
+    ...variables,
+    ...settingsVariables(settings, `profiles.${profile}`, source),
+  };
+}
+
+/**
+ * Reads the config file and the profile selected by CLAUDE_PROFILE. Returns
+ * undefined when there is no config file and none was asked for.
+ */
+export async function loadCiConfig(
+  env: NodeJS.ProcessEnv,
+): Promise<LoadedCiConfig | undefined> {
+  const path = env.CLAUDE_CI_CONFIG?.trim() || DEFAULT_CI_CONFIG_PATH;
+  const profile = env.CLAUDE_PROFILE?.trim() || undefined;
+
+  let text: string;
+  try {
+    text = await readFile(
+      resolve(env.CI_PROJECT_DIR || process.cwd(), path),
+      "utf-8",
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    if (profile || env.CLAUDE_CI_CONFIG?.trim()) {
+      throw new Error(
+        `Config file ${path} does not exist${profile ? ` (needed for profile ${profile})` : ""}`,
+      );
+    }
+    return undefined;
+  }
+
+  const config = parseCiConfig(text, path);
+  return { path, profile, variables: profileVariables(config, profile, path) };
+}
+
+// Sets the config file's variables the job left unset or empty
+export function applyCiConfig(
+  env: NodeJS.ProcessEnv,
+  variables: Record<string, string>,
+): void {
+  for (const [name, value] of Object.entries(variables)) {
+    if (!env[name]?.trim()) {
+      env[name] = value;
+    }
+  }
+}
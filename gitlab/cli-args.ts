@@ -0,0 +1,129 @@
+/**
+ * Command-line flags of gitlab/cli.ts
+ *
+ * Every input in src/inputs.ts with a GitLab CI/CD variable, including the
+ * GitLab-only ones but not credentials, can also be set as a flag, named after the input with
+ * dashes: `--prompt-file` sets CLAUDE_PROMPT_FILE and `--issue-iid` sets
+ * CLAUDE_ISSUE_IID. Flags override the variables, so the CLI runs locally
+ * without exporting them, e.g.
+ * `bun gitlab/cli.ts --mode triage --issue-iid 5 --triage-dry-run`.
+ * `--profile` and `--ci-config` select the repository config file's profile
+ * and path.
+ */
+
+import { INPUTS, parseInput, type InputDefinition } from "../src/inputs";
+import { DEFAULT_CI_CONFIG_PATH, SECRET_INPUTS } from "./ci-config";
+
+export type CliArgs = {
+  help: boolean;
+  // CI/CD variables set by flags, e.g. { CLAUDE_MAX_TURNS: "5" }
+  env: Record<string, string>;
+};
+
+type Flag = {
+  name: string;
+  input: InputDefinition & { gitlab: string };
+};
+
+// Select the repository config file and its profile (see ci-config.ts)
+const CI_CONFIG_INPUTS: Flag["input"][] = [
+  {
+    name: "ci_config",
+    gitlab: "CLAUDE_CI_CONFIG",
+    type: "string",
+    default: DEFAULT_CI_CONFIG_PATH,
+  },
+  { name: "profile", gitlab: "CLAUDE_PROFILE", type: "string" },
+];
+
+export const FLAGS: readonly Flag[] = [
+  ...(INPUTS as readonly InputDefinition[]).filter(
+    (input): input is Flag["input"] =>
+      input.gitlab !== undefined && !SECRET_INPUTS.includes(input.name),
+  ),
+  ...CI_CONFIG_INPUTS,
+].map((input) => ({ name: `--${input.name.replace(/_/g, "-")}`, input }));
+
+const HELP_HINT = "Run with --help to list the flags.";
+
+/**
+ * Parses `--flag value`, `--flag=value` and, for boolean inputs, a bare
+ * `--flag`. Values are validated like the variables they set.
+ */
+export function parseCliArgs(argv: readonly string[]): CliArgs {
+  const args: CliArgs = { help: false, env: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "--help" || arg === "-h") {
+      args.help = true;
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      throw new Error(`Unexpected argument: ${arg}. ${HELP_HINT}`);
+    }
+
+    const separator = arg.indexOf("=");
+    const name = separator === -1 ? arg : arg.slice(0, separator);
+    const flag = FLAGS.find((flag) => flag.name === name);
+    if (!flag) {
+      throw new Error(`Unknown flag: ${name}. ${HELP_HINT}`);
+    }
+
+    let value: string;
+    if (separator !== -1) {
+      value = arg.slice(separator + 1);
+    } else if (flag.input.type === "boolean") {
+      value = "true";
+    } else if (i + 1 < argv.length && !argv[i + 1]!.startsWith("--")) {
+      value = argv[++i]!;
+    } else {
+      throw new Error(`${name} requires a value. ${HELP_HINT}`);
+    }
+
+    args.env[flag.input.gitlab] = parseInput(flag.input, value, name) ?? "";
+  }
+
+  return args;
+}
+
+function valueHint(input: InputDefinition): string {
+  switch (input.type) {
+    case "boolean":
+      return "";
+    case "positive-integer":
+    case "non-negative-integer":
+      return " <n>";
+    case "positive-number":
+      return " <number>";
+    case "enum":
+      return ` <${input.values?.join("|")}>`;
+    case "string":
+      return " <value>";
+  }
+}
+
+export function formatHelp(): string {
+  const rows = FLAGS.map(({ name, input }) => {
+    const usage = `${name}${valueHint(input)}`;
+    const details = [input.gitlab];
+    const defaultValue = input.gitlabDefault ?? input.default;
+    if (defaultValue !== undefined) {
+      details.push(`default: ${defaultValue}`);
+    }
+    return [usage, details.join(", ")] as const;
+  });
+  const width = Math.max(...rows.map(([usage]) => usage.length));
+
+  return [
+    "Usage: bun gitlab/cli.ts [flags]",
+    "",
+    "Runs Claude Code in GitLab CI. Every flag overrides the CI/CD variable",
+    "shown next to it. Credentials such as GITLAB_TOKEN and the predefined",
+    "CI_* variables are only read from the environment.",
+    "",
+    "Flags:",
+    ...rows.map(([usage, details]) => `  ${usage.padEnd(width)}  ${details}`),
+    `  ${"--help".padEnd(width)}  Show this help`,
+  ].join("\n");
+}
@@ -8,107 +8,115 @@
  * and output mechanisms.
  */
 
-import { preparePrompt } from "../src/prepare-prompt";
+import { preparePrompt, type PreparePromptInput } from "../src/prepare-prompt";
+import {
+  parseDeclaredVariables,
+  resolvePromptVariables,
+} from "../src/prompt-variables";
 import { runClaudeGitLab } from "./run-claude-gitlab";
+import { gitlabOnlyEnv, inputEnv, readInputs, type Inputs } from "../src/inputs";
+import { formatHelp, parseCliArgs, type CliArgs } from "./cli-args";
+import { applyCiConfig, loadCiConfig } from "./ci-config";
 import { setupClaudeCodeSettings } from "../src/setup-claude-code-settings";
 import { validateEnvironmentVariablesGitLab } from "./validate-env-gitlab";
+import { getGitLabApiConfig, getGitLabWriteApiConfig, type GitLabApiConfig } from "./gitlab-api";
+import {
+  formatFailureNote,
+  formatResultNote,
+  formatRunningNote,
+  stickyNoteMarker,
+  upsertStickyNote,
+} from "./merge-request-note";
+import { buildMergeRequestContext } from "./merge-request-context";
+import {
+  extractFindings,
+  FINDINGS_INSTRUCTIONS,
+  stripFindingsBlock,
+  type ReviewFinding,
+} from "./review-findings";
+import { writeCodeQualityReport } from "./code-quality";
+import { postReviewDiscussions } from "./review-discussions";
+import {
+  applyIssueLabels,
+  buildTriagePrompt,
+  extractProposedLabels,
+  fetchIssue,
+  fetchIssueComments,
+  fetchProjectLabels,
+  selectExistingLabels,
+  TRIAGE_ALLOWED_TOOLS,
+  TRIAGE_DISALLOWED_TOOLS,
+  type Label,
+} from "./issue-triage";
+import {
+  buildPushUrl,
+  commitAndPushChanges,
+  formatAutoFixDescription,
+  openOrUpdateMergeRequest,
+} from "./auto-fix";
+import {
+  buildMentionPrompt,
+  checkoutMergeRequest,
+  containsTrigger,
+  fetchAccessLevel,
+  fetchCurrentUserId,
+  fetchThreadNotes,
+  isBotNote,
+  parseAccessLevel,
+  parseNoteEvent,
+  readNotePayload,
+  replyToNote,
+  type NoteEvent,
+} from "./note-trigger";
+import { addGitLabMcpServer } from "./gitlab-mcp-server";
+import { DEFAULT_DOTENV_LIMITS, DotenvReport } from "./dotenv-report";
+import { awsCredentialsEnv, getAwsOidcCredentials } from "./aws-oidc";
+import {
+  isGcpWorkloadIdentityConfigured,
+  writeExternalAccountCredentials,
+} from "./gcp-oidc";
+import { findResultEvent, parseStreamJson } from "../src/stream-json";
+import {
+  claudeProjectDir,
+  findSessionId,
+  parseSessionStoreOptions,
+  restoreSession,
+  saveSession,
+  type SessionStoreOptions,
+} from "./session-store";
+import { relative } from "path";
 
-// CLI argument parsing
-function parseArgs(): Record<string, string> {
-  const args: Record<string, string> = {};
-  
-  // Parse command line arguments in --key=value or --key value format
-  for (let i = 2; i < process.argv.length; i++) {
-    const arg = process.argv[i];
-    
-    if (arg.startsWith('--')) {
-      const [key, ...valueParts] = arg.slice(2).split('=');
-      
-      if (valueParts.length > 0) {
-        // --key=value format
-        args[key] = valueParts.join('=');
-      } else if (i + 1 < process.argv.length && !process.argv[i + 1].startsWith('--')) {
-        // --key value format
-        args[key] = process.argv[i + 1];
-        i++; // Skip the next argument as it's the value
-      } else {
-        // Boolean flag
-        args[key] = 'true';
-      }
-    }
-  }
-  
-  return args;
-}
-
-// Map GitLab CI environment variables to our expected format
+// Variables the shared runner expects that GitLab CI does not set; inputs are mapped by src/inputs.ts
 function mapGitLabEnvironment(): Record<string, string> {
   const env: Record<string, string> = {};
   
-  // Map GitLab CI variables to expected format
-  env.CLAUDE_PROMPT = process.env.CLAUDE_PROMPT || "";
-  env.CLAUDE_PROMPT_FILE = process.env.CLAUDE_PROMPT_FILE || "";
-  env.CLAUDE_ALLOWED_TOOLS = process.env.CLAUDE_ALLOWED_TOOLS || "";
-  env.CLAUDE_DISALLOWED_TOOLS = process.env.CLAUDE_DISALLOWED_TOOLS || "";
-  env.CLAUDE_MAX_TURNS = process.env.CLAUDE_MAX_TURNS || "";
-  env.CLAUDE_MCP_CONFIG = process.env.CLAUDE_MCP_CONFIG || "";
-  env.CLAUDE_SETTINGS = process.env.CLAUDE_SETTINGS || "";
-  env.CLAUDE_SYSTEM_PROMPT = process.env.CLAUDE_SYSTEM_PROMPT || "";
-  env.CLAUDE_APPEND_SYSTEM_PROMPT = process.env.CLAUDE_APPEND_SYSTEM_PROMPT || "";
-  env.CLAUDE_TIMEOUT_MINUTES = process.env.CLAUDE_TIMEOUT_MINUTES || "10";
-  env.CLAUDE_ENV = process.env.CLAUDE_ENV || "";
-  env.CLAUDE_FALLBACK_MODEL = process.env.CLAUDE_FALLBACK_MODEL || "";
-  env.CLAUDE_EXPERIMENTAL_SLASH_COMMANDS_DIR = process.env.CLAUDE_EXPERIMENTAL_SLASH_COMMANDS_DIR || "";
-  
-  // Model configuration
-  env.ANTHROPIC_MODEL = process.env.CLAUDE_MODEL || process.env.ANTHROPIC_MODEL || "";
-  
-  // Authentication
-  env.ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || "";
-  env.CLAUDE_CODE_OAUTH_TOKEN = process.env.CLAUDE_CODE_OAUTH_TOKEN || "";
-  env.ANTHROPIC_BASE_URL = process.env.ANTHROPIC_BASE_URL || "";
-  
-  // Provider flags
-  if (process.env.CLAUDE_USE_BEDROCK === 'true') {
-    env.CLAUDE_CODE_USE_BEDROCK = '1';
-  }
-  if (process.env.CLAUDE_USE_VERTEX === 'true') {
-    env.CLAUDE_CODE_USE_VERTEX = '1';
+  // Derive the Bedrock endpoint from the region, as action.yml does
+  if (!process.env.ANTHROPIC_BEDROCK_BASE_URL && process.env.AWS_REGION) {
+    env.ANTHROPIC_BEDROCK_BASE_URL = `https://bedrock-runtime.${process.env.AWS_REGION}.amazonaws.com`;
   }
   
-  // AWS configuration
-  env.AWS_REGION = process.env.AWS_REGION || "";
-  env.AWS_ACCESS_KEY_ID = process.env.AWS_ACCESS_KEY_ID || "";
-  env.AWS_SECRET_ACCESS_KEY = process.env.AWS_SECRET_ACCESS_KEY || "";
-  env.AWS_SESSION_TOKEN = process.env.AWS_SESSION_TOKEN || "";
-  env.ANTHROPIC_BEDROCK_BASE_URL = process.env.ANTHROPIC_BEDROCK_BASE_URL || 
-    (process.env.AWS_REGION ? `https://bedrock-runtime.${process.env.AWS_REGION}.amazonaws.com` : "");
-  
-  // GCP configuration
-  env.ANTHROPIC_VERTEX_PROJECT_ID = process.env.ANTHROPIC_VERTEX_PROJECT_ID || "";
-  env.CLOUD_ML_REGION = process.env.CLOUD_ML_REGION || "";
-  env.GOOGLE_APPLICATION_CREDENTIALS = process.env.GOOGLE_APPLICATION_CREDENTIALS || "";
-  env.ANTHROPIC_VERTEX_BASE_URL = process.env.ANTHROPIC_VERTEX_BASE_URL || "";
-  
   // Set GitLab CI temp directory (equivalent to RUNNER_TEMP)
-  env.RUNNER_TEMP = process.env.RUNNER_TEMP || `${process.env.CI_PROJECT_DIR}/.tmp`;
+  env.RUNNER_TEMP =
+    process.env.RUNNER_TEMP || `${process.env.CI_PROJECT_DIR || process.cwd()}/.tmp`;
   
   return env;
 }
 
 // GitLab CI output functions (replace @actions/core functionality)
 class GitLabOutput {
+  private static report?: DotenvReport;
+  
   static setOutput(name: string, value: string) {
-    // In GitLab CI, we can write to job artifacts or use echo for logging
-    console.log(`::set-output name=${name}::${value}`);
-    
-    // Also write to environment file for potential use by subsequent jobs
-    const envFile = process.env.GITLAB_ENV || '/dev/null';
-    try {
-      require('fs').appendFileSync(envFile, `${name}=${value}\n`);
-    } catch (e) {
-      // Ignore if we can't write to env file
-    }
+    console.log(`Output ${name}: ${value}`);
+    
+    // Uploaded with artifacts:reports:dotenv so later jobs can read outputs through needs:
+    GitLabOutput.report ??= new DotenvReport(
+      process.env.CLAUDE_DOTENV_REPORT ||
+        `${process.env.CI_PROJECT_DIR || process.cwd()}/claude.env`,
+      DEFAULT_DOTENV_LIMITS,
+      (message) => GitLabOutput.warning(message),
+    );
+    GitLabOutput.report.set(name, value);
   }
   
   static setFailed(message: string) {
@@ -125,22 +133,370 @@ class GitLabOutput {
   }
 }
 
+// Create or update this job's sticky note on the merge request that triggered the pipeline
+async function updateResultNote(inputs: Inputs | undefined, content: string) {
+  if (inputs?.post_result_note !== "true") {
+    return;
+  }
+
+  const mergeRequestIid = process.env.CI_MERGE_REQUEST_IID;
+  if (!mergeRequestIid) {
+    GitLabOutput.warning(
+      "CLAUDE_POST_RESULT_NOTE is enabled but CI_MERGE_REQUEST_IID is not set; skipping merge request note",
+    );
+    return;
+  }
+
+  try {
+    const note = await upsertStickyNote(
+      getGitLabWriteApiConfig("CLAUDE_POST_RESULT_NOTE"),
+      mergeRequestIid,
+      stickyNoteMarker(process.env.CI_JOB_NAME),
+      content,
+    );
+    GitLabOutput.info(`Updated note ${note.id} on merge request !${mergeRequestIid}`);
+  } catch (error) {
+    // A failed note should not change the outcome of the job
+    GitLabOutput.warning(`Failed to update merge request note: ${error}`);
+  }
+}
+
+// Write Claude's structured findings as a GitLab Code Quality report
+async function writeFindingsReport(inputs: Inputs, findings: ReviewFinding[]) {
+  const reportPath =
+    inputs.code_quality_report ||
+    `${process.env.CI_PROJECT_DIR || process.cwd()}/gl-code-quality-report.json`;
+
+  try {
+    const report = await writeCodeQualityReport(reportPath, findings);
+    GitLabOutput.info(`Wrote ${report.length} finding(s) to ${reportPath}`);
+  } catch (error) {
+    GitLabOutput.warning(`Failed to write Code Quality report: ${error}`);
+  }
+}
+
+// Post Claude's structured findings as inline discussions on the merge request
+async function postFindingDiscussions(findings: ReviewFinding[]) {
+  const mergeRequestIid = process.env.CI_MERGE_REQUEST_IID;
+  if (!mergeRequestIid) {
+    GitLabOutput.warning(
+      "CLAUDE_REVIEW_DISCUSSIONS is enabled but CI_MERGE_REQUEST_IID is not set; skipping review discussions",
+    );
+    return;
+  }
+
+  try {
+    const result = await postReviewDiscussions(
+      getGitLabWriteApiConfig("CLAUDE_REVIEW_DISCUSSIONS"),
+      mergeRequestIid,
+      findings,
+    );
+    GitLabOutput.info(
+      `Review discussions: ${result.posted} posted, ${result.unpositioned} in summary note, ${result.duplicates} already posted`,
+    );
+  } catch (error) {
+    GitLabOutput.warning(`Failed to post review discussions: ${error}`);
+  }
+}
+
+// Exchange the job's ID token for temporary AWS credentials used by Claude
+async function configureAwsOidc(inputs: Inputs) {
+  if (inputs.use_bedrock !== "true" || !process.env.AWS_ROLE_ARN) {
+    return;
+  }
+
+  const credentials = await getAwsOidcCredentials();
+  Object.assign(process.env, awsCredentialsEnv(credentials));
+  console.log(
+    `Assumed ${process.env.AWS_ROLE_ARN} with the GitLab ID token (credentials expire ${credentials.expiration})`,
+  );
+}
+
+// Point Google's client libraries at a workload identity credential configuration
+async function configureGcpWorkloadIdentity(inputs: Inputs) {
+  if (inputs.use_vertex !== "true" || !isGcpWorkloadIdentityConfigured()) {
+    return;
+  }
+
+  process.env.GOOGLE_APPLICATION_CREDENTIALS = await writeExternalAccountCredentials();
+  console.log(
+    `Using workload identity federation for GCP (credentials: ${process.env.GOOGLE_APPLICATION_CREDENTIALS})`,
+  );
+}
+
+// Register the bundled GitLab MCP server whenever GITLAB_TOKEN can reach the GitLab API
+function resolveMcpConfig(inputs: Inputs): string | undefined {
+  const mcpConfig = inputs.mcp_config;
+  if (inputs.gitlab_mcp !== "true") {
+    return mcpConfig;
+  }
+
+  // Most of its tools fail with CI_JOB_TOKEN, which every job has
+  try {
+    getGitLabWriteApiConfig("The GitLab MCP server");
+  } catch (error) {
+    return mcpConfig;
+  }
+
+  console.log("Registering the bundled GitLab MCP server");
+  return addGitLabMcpServer(mcpConfig);
+}
+
+// Only the user's own prompt is interpolated: built-in prompts quote issues and comments, whose braces are not placeholders
+export function promptInput(
+  builtInPrompt: string | undefined,
+  inputs: Inputs,
+  context?: string,
+  variables?: Record<string, string>,
+): PreparePromptInput {
+  if (builtInPrompt !== undefined) {
+    return { prompt: builtInPrompt, promptFile: "", context };
+  }
+  return { prompt: inputs.prompt || "", promptFile: inputs.prompt_file || "", context, variables };
+}
+
+type IssueTriage = {
+  config: GitLabApiConfig;
+  issueIid: string;
+  labels: Label[];
+  prompt: string;
+};
+
+// Fetch the issue and the project's labels and build the triage prompt from them
+async function prepareIssueTriage(inputs: Inputs): Promise<IssueTriage> {
+  const issueIid = inputs.issue_iid;
+  if (!issueIid) {
+    throw new Error("CLAUDE_ISSUE_IID is required when CLAUDE_MODE is \"triage\".");
+  }
+
+  // Job tokens cannot edit issues, so the labels could never be applied
+  const config = getGitLabWriteApiConfig('CLAUDE_MODE "triage"');
+  const [issue, labels, comments] = await Promise.all([
+    fetchIssue(config, issueIid),
+    fetchProjectLabels(config),
+    fetchIssueComments(config, issueIid),
+  ]);
+  console.log(`Triaging issue #${issue.iid} against ${labels.length} project label(s)`);
+
+  return { config, issueIid, labels, prompt: buildTriagePrompt(issue, labels, comments) };
+}
+
+// Apply the labels Claude proposed, restricted to labels that already exist
+async function applyTriageLabels(inputs: Inputs, triage: IssueTriage, output: string) {
+  const { labels, unknown } = selectExistingLabels(extractProposedLabels(output), triage.labels);
+  if (unknown.length > 0) {
+    GitLabOutput.warning(`Ignoring labels that do not exist in the project: ${unknown.join(", ")}`);
+  }
+
+  if (labels.length === 0) {
+    GitLabOutput.info("No labels proposed for this issue");
+    return;
+  }
+
+  if (inputs.triage_dry_run === "true") {
+    GitLabOutput.info(`Dry run: would apply labels to issue #${triage.issueIid}: ${labels.join(", ")}`);
+    return;
+  }
+
+  await applyIssueLabels(triage.config, triage.issueIid, labels);
+  GitLabOutput.info(`Applied labels to issue #${triage.issueIid}: ${labels.join(", ")}`);
+}
+
+type MentionRun = {
+  config: GitLabApiConfig;
+  event: NoteEvent;
+  prompt: string;
+};
+
+// Decide whether the triggering note should start a run and build its prompt
+async function prepareMention(inputs: Inputs): Promise<MentionRun | undefined> {
+  // Job tokens can neither look up members nor reply; fail before anything else runs
+  const config = getGitLabWriteApiConfig('CLAUDE_MODE "mention"');
+  const event = parseNoteEvent(readNotePayload());
+  const triggerPhrase = inputs.trigger_phrase!;
+  if (!containsTrigger(event.body, triggerPhrase)) {
+    GitLabOutput.info(`Note ${event.noteId} does not mention ${triggerPhrase}; skipping`);
+    return undefined;
+  }
+
+  let botUserId: number | undefined;
+  try {
+    botUserId = await fetchCurrentUserId(config);
+  } catch (error) {
+    // The lookup is best effort; the note marker check still applies
+    GitLabOutput.warning(`Could not look up the user of the API token: ${error}`);
+  }
+  if (isBotNote(event, botUserId)) {
+    GitLabOutput.info(`Note ${event.noteId} was written by Claude; skipping`);
+    return undefined;
+  }
+
+  const requiredLevel = parseAccessLevel(inputs.mention_min_access_level);
+  const accessLevel = await fetchAccessLevel(config, event.author.id);
+  if (accessLevel < requiredLevel) {
+    GitLabOutput.info(
+      `@${event.author.username} has access level ${accessLevel}, below the required ${requiredLevel}; skipping`,
+    );
+    return undefined;
+  }
+
+  const thread = await fetchThreadNotes(config, event);
+  const { noteable } = event;
+  
+  // The pipeline runs on the webhook's ref; work on the merge request's code instead
+  if (noteable.type === "merge_request") {
+    const sha = await checkoutMergeRequest(noteable, process.env.CI_PROJECT_DIR);
+    console.log(`Checked out ${noteable.sourceBranch} at ${sha}`);
+    // Lets CLAUDE_AUTO_FIX_PUSH_TO_SOURCE push to it, unless it belongs to a fork
+    if (!noteable.fromFork) {
+      process.env.CI_MERGE_REQUEST_SOURCE_BRANCH_NAME = noteable.sourceBranch;
+    }
+  }
+  console.log(
+    `Responding to @${event.author.username} on ${noteable.type === "merge_request" ? `merge request !${noteable.iid}` : `issue #${noteable.iid}`}`,
+  );
+  return { config, event, prompt: buildMentionPrompt(event, thread) };
+}
+
+// Post Claude's answer as a reply to the note that mentioned it
+async function replyToMention(mention: MentionRun, content: string) {
+  const { event } = mention;
+  try {
+    const note = await replyToNote(mention.config, event, content);
+    GitLabOutput.info(`Replied to note ${event.noteId} with note ${note.id}`);
+  } catch (error) {
+    GitLabOutput.warning(`Failed to reply to note ${event.noteId}: ${error}`);
+  }
+}
+
+// Store the run's session so the next run on the same merge request or branch can resume it
+async function persistSession(store: SessionStoreOptions, output: string) {
+  const sessionId = findSessionId(output);
+  if (!sessionId) {
+    GitLabOutput.warning("Claude did not report a session ID; nothing to persist");
+    return;
+  }
+
+  try {
+    await saveSession(store, claudeProjectDir(process.cwd()), sessionId);
+    GitLabOutput.info(`Saved session ${sessionId} to ${store.dir}/${store.key}`);
+  } catch (error) {
+    GitLabOutput.warning(`Failed to persist session ${sessionId}: ${error}`);
+  }
+}
+
+// Commit Claude's edits to a branch, push it and open or update a merge request
+async function runAutoFix(inputs: Inputs, output: string) {
+  const projectDir = process.env.CI_PROJECT_DIR || process.cwd();
+  const token = process.env.GITLAB_TOKEN;
+  if (!token || !process.env.CI_SERVER_URL || !process.env.CI_PROJECT_PATH) {
+    throw new Error(
+      "CLAUDE_AUTO_FIX requires GITLAB_TOKEN (with api and write_repository scopes), CI_SERVER_URL and CI_PROJECT_PATH.",
+    );
+  }
+
+  // Pushing to the merge request's own branch must be allowed explicitly
+  const sourceBranch = process.env.CI_MERGE_REQUEST_SOURCE_BRANCH_NAME;
+  const pushToSource = inputs.auto_fix_push_to_source === "true" && !!sourceBranch;
+  const branch = pushToSource
+    ? sourceBranch!
+    : inputs.auto_fix_branch || `claude/auto-fix-${process.env.CI_PIPELINE_ID}`;
+
+  const excludePaths = [
+    "claude-execution-output.json",
+    "output.txt",
+    "gl-code-quality-report.json",
+    "claude.env",
+    "claude-summary.md",
+    "claude-result.json",
+  ];
+  for (const dir of [
+    process.env.RUNNER_TEMP || `${projectDir}/.tmp`,
+    inputs.session_dir || `${projectDir}/.claude-sessions`,
+  ]) {
+    const relativeDir = relative(projectDir, dir);
+    if (relativeDir && !relativeDir.startsWith("..")) {
+      excludePaths.push(relativeDir);
+    }
+  }
+
+  const result = await commitAndPushChanges({
+    cwd: projectDir,
+    branch,
+    pushUrl: buildPushUrl(process.env.CI_SERVER_URL, process.env.CI_PROJECT_PATH, token),
+    authorName: inputs.auto_fix_author_name!,
+    authorEmail: inputs.auto_fix_author_email!,
+    commitMessage: inputs.auto_fix_commit_message!,
+    replaceBranch: !pushToSource,
+    excludePaths,
+  });
+
+  if (result.status === "no_changes") {
+    GitLabOutput.info("Claude made no changes to the working tree; nothing to commit");
+    return;
+  }
+  GitLabOutput.info(
+    `Pushed ${result.files.length} changed file(s) to ${result.branch} (${result.commitSha})`,
+  );
+  GitLabOutput.setOutput("auto_fix_branch", result.branch);
+
+  // The merge request for the source branch already exists
+  if (pushToSource) {
+    return;
+  }
+
+  const summary = findResultEvent(parseStreamJson(output))?.result;
+  const mergeRequest = await openOrUpdateMergeRequest(getGitLabApiConfig(), {
+    sourceBranch: branch,
+    targetBranch:
+      sourceBranch || process.env.CI_COMMIT_BRANCH || process.env.CI_DEFAULT_BRANCH || "main",
+    title: inputs.auto_fix_mr_title!,
+    description: formatAutoFixDescription(
+      result.files,
+      summary && stripFindingsBlock(summary),
+      process.env.CI_PIPELINE_URL,
+    ),
+  });
+  GitLabOutput.setOutput("auto_fix_merge_request_url", mergeRequest.web_url);
+  GitLabOutput.info(
+    `${mergeRequest.created ? "Opened" : "Updated"} merge request !${mergeRequest.iid}: ${mergeRequest.web_url}`,
+  );
+}
+
 async function main() {
+  // Flags override the CI/CD variables they stand for
+  let cliArgs: CliArgs;
+  try {
+    cliArgs = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    GitLabOutput.setOutput("conclusion", "failure");
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+  if (cliArgs.help) {
+    console.log(formatHelp());
+    return;
+  }
+  Object.assign(process.env, cliArgs.env);
+  
+  let inputs: Inputs | undefined;
   try {
     console.log("Starting Claude Code GitLab CI execution...");
     
-    // Parse CLI arguments (for future extensibility)
-    const cliArgs = parseArgs();
+    // Fill in what the job leaves unset from the repository config file and the selected profile
+    const ciConfig = await loadCiConfig(process.env);
+    if (ciConfig) {
+      applyCiConfig(process.env, ciConfig.variables);
+      console.log(
+        ciConfig.profile
+          ? `Using profile ${ciConfig.profile} from ${ciConfig.path}`
+          : `Using defaults from ${ciConfig.path}`,
+      );
+    }
     
-    // Map GitLab environment variables
-    const gitlabEnv = mapGitLabEnvironment();
-    
-    // Set environment variables for compatibility with existing code
-    Object.entries(gitlabEnv).forEach(([key, value]) => {
-      if (value) {
-        process.env[`INPUT_${key.replace('CLAUDE_', '')}`] = value;
-      }
-    });
+    // Read and validate the CLAUDE_* inputs, then expose them where the shared code reads them
+    inputs = readInputs(process.env, "gitlab");
+    Object.assign(process.env, inputEnv(inputs), gitlabOnlyEnv(inputs), mapGitLabEnvironment());
     
     // Ensure temp directory exists
     const tempDir = process.env.RUNNER_TEMP;
@@ -150,40 +506,151 @@ async function main() {
     
     // Validate environment variables
     validateEnvironmentVariablesGitLab();
+    await configureAwsOidc(inputs);
+    await configureGcpWorkloadIdentity(inputs);
+    
+    await updateResultNote(inputs, formatRunningNote(process.env.CI_JOB_URL));
     
     // Setup Claude Code settings
     await setupClaudeCodeSettings(
-      process.env.INPUT_SETTINGS,
+      inputs.settings,
       undefined, // homeDir
-      process.env.INPUT_EXPERIMENTAL_SLASH_COMMANDS_DIR,
+      inputs.experimental_slash_commands_dir,
     );
     
+    const mode = inputs.mode;
+    
+    // Issue triage builds its own prompt and only gets read-only tools
+    const triage = mode === "triage" ? await prepareIssueTriage(inputs) : undefined;
+    
+    // Mention runs build their prompt from the comment that mentioned Claude
+    const mention = mode === "mention" ? await prepareMention(inputs) : undefined;
+    if (mode === "mention" && !mention) {
+      GitLabOutput.setOutput("conclusion", "skipped");
+      return;
+    }
+    const builtInPrompt = triage?.prompt ?? mention?.prompt;
+    
+    // Collect merge request details to prepend to the prompt
+    let context: string | undefined;
+    if (inputs.mr_context === "true") {
+      const mentionedMergeRequest =
+        mention?.event.noteable.type === "merge_request" ? mention.event.noteable : undefined;
+      const contextEnv = mentionedMergeRequest
+        ? { ...process.env, CI_MERGE_REQUEST_IID: String(mentionedMergeRequest.iid) }
+        : process.env;
+      context = await buildMergeRequestContext(contextEnv, () => getGitLabApiConfig());
+      console.log(`Merge request context size: ${Buffer.byteLength(context)} bytes`);
+    }
+    
+    // Expand {{ NAME }} placeholders only when explicitly enabled
+    const variables =
+      inputs.prompt_interpolation === "true"
+        ? resolvePromptVariables(process.env, parseDeclaredVariables(inputs.prompt_variables))
+        : undefined;
+    
     // Prepare prompt
-    const promptConfig = await preparePrompt({
-      prompt: process.env.INPUT_PROMPT || "",
-      promptFile: process.env.INPUT_PROMPT_FILE || "",
-    });
+    const promptConfig = await preparePrompt(promptInput(builtInPrompt, inputs, context, variables));
+    
+    // Ask Claude for machine-readable findings when they are reported anywhere
+    const codeQualityMode = inputs.findings === "true";
+    const discussionsMode = inputs.review_discussions === "true";
+    const findingsMode = codeQualityMode || discussionsMode;
+    if (discussionsMode) {
+      // Job tokens cannot post discussions; fail before Claude spends anything
+      getGitLabWriteApiConfig("CLAUDE_REVIEW_DISCUSSIONS");
+    }
+    const appendSystemPrompt = findingsMode
+      ? [inputs.append_system_prompt, FINDINGS_INSTRUCTIONS]
+          .filter(Boolean)
+          .join("\n\n")
+      : inputs.append_system_prompt;
+    
+    // Pick up the conversation of an earlier pipeline on the same merge request or branch
+    const sessionStore = parseSessionStoreOptions(process.env);
+    const resumeSessionId = sessionStore
+      ? await restoreSession(sessionStore, claudeProjectDir(process.cwd()), Date.now(), (message) =>
+          GitLabOutput.info(message),
+        )
+      : undefined;
     
     // Run Claude with GitLab CI adaptations
-    await runClaudeGitLab(promptConfig.path, {
-      allowedTools: process.env.INPUT_ALLOWED_TOOLS,
-      disallowedTools: process.env.INPUT_DISALLOWED_TOOLS,
-      maxTurns: process.env.INPUT_MAX_TURNS,
-      mcpConfig: process.env.INPUT_MCP_CONFIG,
-      systemPrompt: process.env.INPUT_SYSTEM_PROMPT,
-      appendSystemPrompt: process.env.INPUT_APPEND_SYSTEM_PROMPT,
-      claudeEnv: process.env.INPUT_CLAUDE_ENV,
-      fallbackModel: process.env.INPUT_FALLBACK_MODEL,
-      model: process.env.ANTHROPIC_MODEL,
-      timeoutMinutes: process.env.INPUT_TIMEOUT_MINUTES,
+    const result = await runClaudeGitLab(promptConfig.path, {
+      allowedTools: triage ? TRIAGE_ALLOWED_TOOLS : inputs.allowed_tools,
+      disallowedTools: triage ? TRIAGE_DISALLOWED_TOOLS : inputs.disallowed_tools,
+      maxTurns: inputs.max_turns,
+      maxCostUsd: inputs.max_cost_usd,
+      maxTotalTokens: inputs.max_total_tokens,
+      jsonSchema: inputs.json_schema,
+      jsonSchemaRetries: inputs.json_schema_retries,
+      maxRetries: inputs.max_retries,
+      resumeSessionId,
+      mcpConfig: resolveMcpConfig(inputs),
+      systemPrompt: inputs.system_prompt,
+      appendSystemPrompt,
+      claudeEnv: inputs.claude_env,
+      fallbackModel: inputs.fallback_model,
+      model: inputs.model || process.env.ANTHROPIC_MODEL,
+      timeoutMinutes: inputs.timeout_minutes,
+      logFormat: inputs.log_format,
+      logColor: inputs.log_color,
     });
+
+    const budgetExceeded = result.conclusion === "budget_exceeded";
+    if (sessionStore) {
+      await persistSession(sessionStore, result.output);
+    }
+    
+    if (findingsMode) {
+      const findings = extractFindings(result.output, process.env.CI_PROJECT_DIR, (message) =>
+        GitLabOutput.warning(message),
+      );
+      if (codeQualityMode) {
+        await writeFindingsReport(inputs, findings);
+      }
+      if (discussionsMode) {
+        await postFindingDiscussions(findings);
+      }
+    }
+
+    if (triage && result.exitCode === 0) {
+      await applyTriageLabels(inputs, triage, result.output);
+    }
+
+    if (inputs.auto_fix === "true" && result.exitCode === 0) {
+      await runAutoFix(inputs, result.output);
+    }
+
+    if (mention) {
+      await replyToMention(
+        mention,
+        result.exitCode === 0
+          ? formatResultNote(result.output) ?? "### Claude Code finished without producing a result"
+          : formatFailureNote(result.exitCode, result.output, process.env.CI_JOB_URL, budgetExceeded),
+      );
+    }
+
+    if (result.exitCode !== 0) {
+      await updateResultNote(
+        inputs,
+        formatFailureNote(result.exitCode, result.output, process.env.CI_JOB_URL, budgetExceeded),
+      );
+      process.exit(result.exitCode);
+    }
+
+    await updateResultNote(
+      inputs,
+      formatResultNote(result.output) ??
+        "### Claude Code finished without producing a result",
+    );
     
     console.log("Claude Code execution completed successfully");
     
   } catch (error) {
-    GitLabOutput.setFailed(`Claude Code execution failed: ${error}`);
+    await updateResultNote(inputs, formatFailureNote(1, "", process.env.CI_JOB_URL));
+    // setFailed exits, so the conclusion has to be written first
     GitLabOutput.setOutput("conclusion", "failure");
-    process.exit(1);
+    GitLabOutput.setFailed(`Claude Code execution failed: ${error}`);
   }
 }
 
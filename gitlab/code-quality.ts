@@ -0,0 +1,61 @@
+/**
+ * Writes review findings as a GitLab Code Quality report
+ * (https://docs.gitlab.com/ee/ci/testing/code_quality.html#implement-a-custom-tool),
+ * so they show up in the merge request widget and diff view.
+ */
+
+import { writeFile } from "fs/promises";
+import {
+  findingFingerprint,
+  type FindingSeverity,
+  type ReviewFinding,
+} from "./review-findings";
+
+export type CodeQualityIssue = {
+  description: string;
+  check_name: string;
+  fingerprint: string;
+  severity: FindingSeverity;
+  location: {
+    path: string;
+    lines: {
+      begin: number;
+    };
+  };
+};
+
+const CHECK_NAME = "claude-code-review";
+
+export function toCodeQualityReport(
+  findings: ReviewFinding[],
+): CodeQualityIssue[] {
+  const issues = new Map<string, CodeQualityIssue>();
+
+  for (const finding of findings) {
+    // GitLab requires fingerprints to be unique within a report
+    const fingerprint = findingFingerprint(finding);
+    if (issues.has(fingerprint)) continue;
+
+    issues.set(fingerprint, {
+      description: finding.description,
+      check_name: CHECK_NAME,
+      fingerprint,
+      severity: finding.severity,
+      location: {
+        path: finding.file,
+        lines: { begin: finding.line },
+      },
+    });
+  }
+
+  return [...issues.values()];
+}
+
+export async function writeCodeQualityReport(
+  path: string,
+  findings: ReviewFinding[],
+): Promise<CodeQualityIssue[]> {
+  const report = toCodeQualityReport(findings);
+  await writeFile(path, JSON.stringify(report, null, 2));
+  return report;
+}
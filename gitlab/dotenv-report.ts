@@ -0,0 +1,89 @@
+/**
+ * Job outputs as a GitLab dotenv report.
+ *
+ * GitLab has no equivalent of GitHub's step outputs; instead a job can upload
+ * a dotenv file with `artifacts:reports:dotenv`, and jobs that depend on it
+ * through `needs:` receive its variables. GitLab rejects the whole report
+ * when it breaks the format rules, so values are normalised and anything
+ * over the limits is dropped with a warning instead.
+ */
+
+import { writeFileSync } from "fs";
+
+export type DotenvLimits = {
+  maxBytes: number;
+  maxVariables: number;
+};
+
+// GitLab's defaults for artifacts:reports:dotenv
+export const DEFAULT_DOTENV_LIMITS: DotenvLimits = {
+  maxBytes: 5 * 1024,
+  maxVariables: 20,
+};
+
+export const DOTENV_KEY_PREFIX = "CLAUDE_OUTPUT_";
+
+const KEY_PATTERN = /^[A-Za-z0-9_]+$/;
+
+/**
+ * Maps an output name such as "execution_file" to CLAUDE_OUTPUT_EXECUTION_FILE.
+ * The prefix keeps outputs from overriding the CLAUDE_* inputs of downstream
+ * jobs, since dotenv variables take precedence over job variables.
+ */
+export function dotenvKey(name: string): string {
+  return `${DOTENV_KEY_PREFIX}${name.replace(/[^A-Za-z0-9_]/g, "_").toUpperCase()}`;
+}
+
+// Multiline values are not supported, and surrounding whitespace is stripped
+export function dotenvValue(value: string): string {
+  return value.replace(/\s*[\r\n]+\s*/g, " ").trim();
+}
+
+export function formatDotenv(values: Map<string, string>): string {
+  return [...values].map(([key, value]) => `${key}=${value}\n`).join("");
+}
+
+export class DotenvReport {
+  private readonly values = new Map<string, string>();
+
+  constructor(
+    private readonly path: string,
+    private readonly limits: DotenvLimits = DEFAULT_DOTENV_LIMITS,
+    private readonly onWarning: (message: string) => void = console.warn,
+  ) {}
+
+  /**
+   * Records an output and rewrites the report, so the file is complete even
+   * if the job fails later on.
+   */
+  set(name: string, value: string): void {
+    const key = dotenvKey(name);
+    if (!KEY_PATTERN.test(key)) {
+      this.onWarning(`Skipping output '${name}': invalid dotenv key ${key}`);
+      return;
+    }
+
+    if (!this.values.has(key) && this.values.size >= this.limits.maxVariables) {
+      this.onWarning(
+        `Skipping output '${name}': the dotenv report is limited to ${this.limits.maxVariables} variables`,
+      );
+      return;
+    }
+
+    const next = new Map(this.values).set(key, dotenvValue(value));
+    const content = formatDotenv(next);
+    if (Buffer.byteLength(content) > this.limits.maxBytes) {
+      this.onWarning(
+        `Skipping output '${name}': the dotenv report would exceed ${this.limits.maxBytes} bytes`,
+      );
+      return;
+    }
+
+    this.values.set(key, next.get(key)!);
+    try {
+      writeFileSync(this.path, content);
+    } catch (error) {
+      this.onWarning(`Failed to write dotenv report ${this.path}: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * GitLab OIDC federation for Google Vertex AI.
+ *
+ * Writes an `external_account` credential configuration that lets Google's
+ * client libraries exchange the job's GitLab ID token for short-lived access
+ * tokens through a workload identity pool, so no service account key has to
+ * be stored in CI variables.
+ */
+
+import { mkdtemp, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+export type ExternalAccountConfig = {
+  type: "external_account";
+  audience: string;
+  subject_token_type: string;
+  token_url: string;
+  credential_source: { file: string };
+  service_account_impersonation_url?: string;
+};
+
+// Variables that enable workload identity federation when any of them is set
+export const GCP_WIF_VARIABLES = [
+  "GCP_WORKLOAD_IDENTITY_PROVIDER",
+  "GCP_PROJECT_NUMBER",
+  "GCP_WORKLOAD_IDENTITY_POOL_ID",
+  "GCP_WORKLOAD_IDENTITY_PROVIDER_ID",
+];
+
+const PROVIDER_PATTERN =
+  /^projects\/[^/]+\/locations\/global\/workloadIdentityPools\/[^/]+\/providers\/[^/]+$/;
+
+export function isGcpWorkloadIdentityConfigured(
+  env: NodeJS.ProcessEnv = process.env,
+): boolean {
+  return GCP_WIF_VARIABLES.some((name) => env[name]);
+}
+
+/**
+ * Returns the provider's full resource name, either as given in
+ * GCP_WORKLOAD_IDENTITY_PROVIDER or assembled from its parts.
+ */
+export function resolveWorkloadIdentityProvider(
+  env: NodeJS.ProcessEnv = process.env,
+): string | undefined {
+  if (env.GCP_WORKLOAD_IDENTITY_PROVIDER) {
+    return env.GCP_WORKLOAD_IDENTITY_PROVIDER.replace(
+      /^\/\/iam\.googleapis\.com\//,
+      "",
+    );
+  }
+  if (
+    env.GCP_PROJECT_NUMBER &&
+    env.GCP_WORKLOAD_IDENTITY_POOL_ID &&
+    env.GCP_WORKLOAD_IDENTITY_PROVIDER_ID
+  ) {
+    return `projects/${env.GCP_PROJECT_NUMBER}/locations/global/workloadIdentityPools/${env.GCP_WORKLOAD_IDENTITY_POOL_ID}/providers/${env.GCP_WORKLOAD_IDENTITY_PROVIDER_ID}`;
+  }
+  return undefined;
+}
+
+export function validateGcpWorkloadIdentity(
+  env: NodeJS.ProcessEnv = process.env,
+): string[] {
+  const errors: string[] = [];
+
+  if (env.GCP_WORKLOAD_IDENTITY_PROVIDER) {
+    if (!PROVIDER_PATTERN.test(resolveWorkloadIdentityProvider(env)!)) {
+      errors.push(
+        `GCP_WORKLOAD_IDENTITY_PROVIDER must look like projects/PROJECT_NUMBER/locations/global/workloadIdentityPools/POOL_ID/providers/PROVIDER_ID, got: ${env.GCP_WORKLOAD_IDENTITY_PROVIDER}`,
+      );
+    }
+  } else {
+    const missing = GCP_WIF_VARIABLES.slice(1).filter((name) => !env[name]);
+    if (missing.length > 0) {
+      errors.push(
+        `Workload identity federation needs GCP_WORKLOAD_IDENTITY_PROVIDER, or all of GCP_PROJECT_NUMBER, GCP_WORKLOAD_IDENTITY_POOL_ID and GCP_WORKLOAD_IDENTITY_PROVIDER_ID. Missing: ${missing.join(", ")}.`,
+      );
+    }
+  }
+
+  if (!env.GCP_ID_TOKEN) {
+    errors.push(
+      "GCP_ID_TOKEN is required for workload identity federation. Declare it in the job with id_tokens, using the provider's audience.",
+    );
+  }
+
+  return errors;
+}
+
+export function buildExternalAccountConfig(
+  provider: string,
+  tokenFile: string,
+  serviceAccount?: string,
+): ExternalAccountConfig {
+  const config: ExternalAccountConfig = {
+    type: "external_account",
+    audience: `//iam.googleapis.com/${provider}`,
+    subject_token_type: "urn:ietf:params:oauth:token-type:jwt",
+    token_url: "https://sts.googleapis.com/v1/token",
+    credential_source: { file: tokenFile },
+  };
+  if (serviceAccount) {
+    config.service_account_impersonation_url = `https://iamcredentials.googleapis.com/v1/projects/-/serviceAccounts/${serviceAccount}:generateAccessToken`;
+  }
+  return config;
+}
+
+/**
+ * Writes the ID token and the credential configuration outside the project
+ * directory and returns the configuration's path for
+ * GOOGLE_APPLICATION_CREDENTIALS.
+ */
+export async function writeExternalAccountCredentials(
+  env: NodeJS.ProcessEnv = process.env,
+  dir?: string,
+): Promise<string> {
+  const errors = validateGcpWorkloadIdentity(env);
+  if (errors.length > 0) {
+    throw new Error(errors.join("\n"));
+  }
+
+  const credentialsDir = dir ?? (await mkdtemp(join(tmpdir(), "claude-gcp-")));
+  const tokenFile = join(credentialsDir, "gitlab-id-token");
+  const configFile = join(credentialsDir, "external-account.json");
+
+  await writeFile(tokenFile, env.GCP_ID_TOKEN!, { mode: 0o600 });
+  const config = buildExternalAccountConfig(
+    resolveWorkloadIdentityProvider(env)!,
+    tokenFile,
+    env.GCP_SERVICE_ACCOUNT,
+  );
+  await writeFile(configFile, JSON.stringify(config, null, 2), {
+    mode: 0o600,
+  });
+
+  return configFile;
+}
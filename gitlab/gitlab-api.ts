@@ -0,0 +1,152 @@
+/**
+ * Minimal GitLab REST API client
+ *
+ * Wraps fetch() with the GitLab API base URL, project and token resolved from
+ * the CI environment. Any non-2xx response is surfaced as a GitLabApiError so
+ * callers can decide whether a failed API call should fail the job.
+ */
+
+export type GitLabApiConfig = {
+  apiUrl: string;
+  projectId: string;
+  token: string;
+  tokenType: "private" | "job";
+};
+
+export class GitLabApiError extends Error {
+  constructor(
+    public readonly method: string,
+    public readonly path: string,
+    public readonly status: number,
+    public readonly responseBody: string,
+  ) {
+    super(
+      `GitLab API ${method} ${path} failed with status ${status}: ${responseBody}`,
+    );
+    this.name = "GitLabApiError";
+  }
+}
+
+/**
+ * Resolves the API configuration from GitLab CI predefined variables.
+ * GITLAB_TOKEN (a project or personal access token) takes precedence over
+ * CI_JOB_TOKEN, whose API permissions are much narrower.
+ */
+export function getGitLabApiConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): GitLabApiConfig {
+  const apiUrl = env.CI_API_V4_URL;
+  const projectId = env.CI_PROJECT_ID;
+  const privateToken = env.GITLAB_TOKEN;
+  const jobToken = env.CI_JOB_TOKEN;
+
+  const errors: string[] = [];
+  if (!apiUrl) {
+    errors.push("CI_API_V4_URL is required to call the GitLab API.");
+  }
+  if (!projectId) {
+    errors.push("CI_PROJECT_ID is required to call the GitLab API.");
+  }
+  if (!privateToken && !jobToken) {
+    errors.push(
+      "Either GITLAB_TOKEN or CI_JOB_TOKEN is required to call the GitLab API.",
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `GitLab API configuration is incomplete:\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+    );
+  }
+
+  return {
+    apiUrl: apiUrl!.replace(/\/+$/, ""),
+    projectId: projectId!,
+    token: (privateToken || jobToken)!,
+    tokenType: privateToken ? "private" : "job",
+  };
+}
+
+/**
+ * Resolves the API configuration for calls CI_JOB_TOKEN is not allowed to
+ * make, such as creating and editing notes. `feature` names what needs them.
+ */
+export function getGitLabWriteApiConfig(
+  feature: string,
+  env: NodeJS.ProcessEnv = process.env,
+): GitLabApiConfig {
+  const config = getGitLabApiConfig(env);
+  if (config.tokenType !== "private") {
+    throw new Error(
+      `${feature} requires GITLAB_TOKEN (a project or personal access token with api scope); CI_JOB_TOKEN cannot call these GitLab API endpoints.`,
+    );
+  }
+  return config;
+}
+
+export function projectPath(config: GitLabApiConfig, path: string): string {
+  return `/projects/${encodeURIComponent(config.projectId)}${path}`;
+}
+
+async function sendRequest(
+  config: GitLabApiConfig,
+  method: string,
+  path: string,
+  body: unknown,
+  accept: string,
+): Promise<string> {
+  const headers: Record<string, string> = {
+    Accept: accept,
+  };
+  headers[config.tokenType === "private" ? "PRIVATE-TOKEN" : "JOB-TOKEN"] =
+    config.token;
+  if (body !== undefined) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${config.apiUrl}${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  } catch (error) {
+    throw new GitLabApiError(method, path, 0, `${error}`);
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new GitLabApiError(method, path, response.status, text);
+  }
+  return text;
+}
+
+export async function gitlabRequest<T>(
+  config: GitLabApiConfig,
+  method: string,
+  path: string,
+  body?: unknown,
+): Promise<T> {
+  const text = await sendRequest(
+    config,
+    method,
+    path,
+    body,
+    "application/json",
+  );
+  if (!text) {
+    return undefined as T;
+  }
+  return JSON.parse(text) as T;
+}
+
+/**
+ * GET for the few endpoints that answer with plain text, such as job logs.
+ */
+export async function gitlabRequestText(
+  config: GitLabApiConfig,
+  path: string,
+): Promise<string> {
+  return sendRequest(config, "GET", path, undefined, "text/plain");
+}
@@ -0,0 +1,279 @@
+#!/usr/bin/env bun
+/**
+ * MCP server exposing GitLab merge request, issue, label and pipeline tools
+ * to Claude. It talks to the same REST API as the rest of the GitLab
+ * integration and is registered automatically by the GitLab CLI; run it
+ * directly with `bun run gitlab/gitlab-mcp-server.ts` in a CI-like
+ * environment (CI_API_V4_URL, CI_PROJECT_ID, GITLAB_TOKEN).
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import {
+  getGitLabApiConfig,
+  gitlabRequest,
+  gitlabRequestText,
+  projectPath,
+  type GitLabApiConfig,
+} from "./gitlab-api";
+import { fetchProjectLabels } from "./issue-triage";
+import { fetchMergeRequestChanges } from "./merge-request-context";
+import { stickyNoteMarker } from "./merge-request-note";
+
+export const GITLAB_MCP_SERVER_NAME = "gitlab";
+export const GITLAB_MCP_SERVER_PATH = join(
+  import.meta.dir,
+  "gitlab-mcp-server.ts",
+);
+
+const DEFAULT_LOG_BYTES = 20000;
+
+// Notes written through the server are marked so mention runs ignore them
+const NOTE_MARKER = stickyNoteMarker("mcp");
+
+type ToolResult = {
+  content: { type: "text"; text: string }[];
+  isError?: boolean;
+};
+
+async function toolResult(run: () => Promise<unknown>): Promise<ToolResult> {
+  try {
+    const value = await run();
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            typeof value === "string" ? value : JSON.stringify(value, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `${error}` }],
+      isError: true,
+    };
+  }
+}
+
+function noteablePath(noteable: "merge_request" | "issue", iid: number) {
+  return noteable === "merge_request"
+    ? `/merge_requests/${iid}`
+    : `/issues/${iid}`;
+}
+
+export function createGitLabMcpServer(config: GitLabApiConfig): McpServer {
+  const server = new McpServer({
+    name: "gitlab",
+    version: "1.0.0",
+  });
+
+  const noteable = z
+    .enum(["merge_request", "issue"])
+    .describe("Whether the IID refers to a merge request or an issue");
+
+  server.tool(
+    "get_merge_request",
+    "Get a merge request's title, description, branches, labels and state",
+    { iid: z.number().int().describe("Merge request IID") },
+    async ({ iid }) =>
+      toolResult(() =>
+        gitlabRequest(
+          config,
+          "GET",
+          projectPath(config, `/merge_requests/${iid}`),
+        ),
+      ),
+  );
+
+  server.tool(
+    "update_merge_request",
+    "Update a merge request's title or description, or close or reopen it",
+    {
+      iid: z.number().int().describe("Merge request IID"),
+      title: z.string().optional(),
+      description: z.string().optional(),
+      state_event: z.enum(["close", "reopen"]).optional(),
+    },
+    async ({ iid, ...changes }) =>
+      toolResult(() =>
+        gitlabRequest(
+          config,
+          "PUT",
+          projectPath(config, `/merge_requests/${iid}`),
+          changes,
+        ),
+      ),
+  );
+
+  server.tool(
+    "list_merge_request_changes",
+    "List the files changed by a merge request with their unified diffs",
+    { iid: z.number().int().describe("Merge request IID") },
+    async ({ iid }) =>
+      toolResult(async () => {
+        const { files } = await fetchMergeRequestChanges(config, String(iid));
+        return files;
+      }),
+  );
+
+  server.tool(
+    "create_note",
+    "Add a comment to a merge request or issue, optionally as a reply in an existing discussion",
+    {
+      noteable,
+      iid: z.number().int(),
+      body: z.string().describe("Markdown comment body"),
+      discussion_id: z
+        .string()
+        .optional()
+        .describe("Reply in this discussion instead of starting a new one"),
+    },
+    async ({ noteable, iid, body, discussion_id }) =>
+      toolResult(() => {
+        const base = noteablePath(noteable, iid);
+        const path = discussion_id
+          ? `${base}/discussions/${discussion_id}/notes`
+          : `${base}/notes`;
+        return gitlabRequest(config, "POST", projectPath(config, path), {
+          body: `${NOTE_MARKER}\n${body}`,
+        });
+      }),
+  );
+
+  server.tool(
+    "list_labels",
+    "List the labels defined in the project",
+    {},
+    async () => toolResult(() => fetchProjectLabels(config)),
+  );
+
+  server.tool(
+    "apply_labels",
+    "Add existing project labels to a merge request or issue; labels already applied are kept",
+    {
+      noteable,
+      iid: z.number().int(),
+      labels: z.array(z.string()).min(1),
+    },
+    async ({ noteable, iid, labels }) =>
+      toolResult(() =>
+        gitlabRequest(
+          config,
+          "PUT",
+          projectPath(config, noteablePath(noteable, iid)),
+          { add_labels: labels.join(",") },
+        ),
+      ),
+  );
+
+  server.tool(
+    "list_pipeline_jobs",
+    "List the jobs of a pipeline with their stage, status and failure reason",
+    { pipeline_id: z.number().int() },
+    async ({ pipeline_id }) =>
+      toolResult(async () => {
+        const jobs = await gitlabRequest<Record<string, unknown>[]>(
+          config,
+          "GET",
+          projectPath(
+            config,
+            `/pipelines/${pipeline_id}/jobs?per_page=100&include_retried=true`,
+          ),
+        );
+        return jobs.map((job) => ({
+          id: job.id,
+          name: job.name,
+          stage: job.stage,
+          status: job.status,
+          failure_reason: job.failure_reason,
+          web_url: job.web_url,
+        }));
+      }),
+  );
+
+  server.tool(
+    "get_job_log",
+    "Get the end of a job's log",
+    {
+      job_id: z.number().int(),
+      max_bytes: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(
+          `Bytes to return from the end (default ${DEFAULT_LOG_BYTES})`,
+        ),
+    },
+    async ({ job_id, max_bytes }) =>
+      toolResult(async () => {
+        const log = await gitlabRequestText(
+          config,
+          projectPath(config, `/jobs/${job_id}/trace`),
+        );
+        const limit = max_bytes ?? DEFAULT_LOG_BYTES;
+        const bytes = Buffer.from(log);
+        return bytes.length > limit
+          ? `[... ${bytes.length - limit} earlier bytes omitted ...]\n${bytes.subarray(bytes.length - limit).toString()}`
+          : log;
+      }),
+  );
+
+  return server;
+}
+
+/**
+ * Adds the bundled server to an MCP config given as a file path or inline
+ * JSON. A server the user already configured under the same name wins. The
+ * token is not written into the config; the server inherits it from the
+ * environment Claude runs in.
+ */
+export function addGitLabMcpServer(
+  mcpConfig: string | undefined,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  let config: { mcpServers?: Record<string, unknown> } = {};
+  const source = mcpConfig?.trim();
+  if (source) {
+    const json = source.startsWith("{") ? source : readFileSync(source, "utf8");
+    try {
+      config = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Failed to parse MCP config: ${error}`);
+    }
+  }
+
+  const servers = config.mcpServers ?? {};
+  if (!(GITLAB_MCP_SERVER_NAME in servers)) {
+    servers[GITLAB_MCP_SERVER_NAME] = {
+      command: process.execPath,
+      args: ["run", GITLAB_MCP_SERVER_PATH],
+      env: {
+        CI_API_V4_URL: env.CI_API_V4_URL,
+        CI_PROJECT_ID: env.CI_PROJECT_ID,
+      },
+    };
+  }
+
+  return JSON.stringify({ ...config, mcpServers: servers });
+}
+
+async function runServer() {
+  const server = createGitLabMcpServer(getGitLabApiConfig());
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  process.on("exit", () => {
+    server.close();
+  });
+}
+
+if (import.meta.main) {
+  runServer().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,185 @@
+/**
+ * GitLab-native issue triage.
+ *
+ * The issue and the project's labels are fetched up front and handed to
+ * Claude in the prompt, so Claude needs no write access at all: it answers
+ * with the labels it proposes, and only labels that already exist in the
+ * project are applied through the API afterwards.
+ */
+
+import { gitlabRequest, projectPath, type GitLabApiConfig } from "./gitlab-api";
+import { findResultEvent, parseStreamJson } from "../src/stream-json";
+
+export type TriageIssue = {
+  iid: number;
+  title: string;
+  description: string | null;
+  labels: string[];
+};
+
+export type Label = {
+  name: string;
+  description: string | null;
+};
+
+type IssueNote = {
+  body: string;
+  system: boolean;
+  author: { username: string };
+};
+
+// Read-only tools so Claude can look at the codebase for context
+export const TRIAGE_ALLOWED_TOOLS = "Read,Grep,Glob,LS";
+export const TRIAGE_DISALLOWED_TOOLS =
+  "Bash,Edit,MultiEdit,Write,NotebookEdit,WebFetch,WebSearch";
+
+const PER_PAGE = 100;
+const MAX_NOTES = 20;
+const LABELS_BLOCK_PATTERN = /```claude-labels[^\n]*\n([\s\S]*?)```/;
+
+async function fetchAllPages<T>(
+  config: GitLabApiConfig,
+  path: string,
+): Promise<T[]> {
+  const items: T[] = [];
+  const separator = path.includes("?") ? "&" : "?";
+  for (let page = 1; ; page++) {
+    const batch = await gitlabRequest<T[]>(
+      config,
+      "GET",
+      projectPath(
+        config,
+        `${path}${separator}per_page=${PER_PAGE}&page=${page}`,
+      ),
+    );
+    items.push(...batch);
+    if (batch.length < PER_PAGE) {
+      return items;
+    }
+  }
+}
+
+export async function fetchProjectLabels(
+  config: GitLabApiConfig,
+): Promise<Label[]> {
+  return fetchAllPages<Label>(config, "/labels");
+}
+
+export async function fetchIssue(
+  config: GitLabApiConfig,
+  issueIid: string,
+): Promise<TriageIssue> {
+  return gitlabRequest<TriageIssue>(
+    config,
+    "GET",
+    projectPath(config, `/issues/${issueIid}`),
+  );
+}
+
+export async function fetchIssueComments(
+  config: GitLabApiConfig,
+  issueIid: string,
+): Promise<IssueNote[]> {
+  const notes = await fetchAllPages<IssueNote>(
+    config,
+    `/issues/${issueIid}/notes?sort=asc`,
+  );
+  return notes.filter((note) => !note.system).slice(0, MAX_NOTES);
+}
+
+export function buildTriagePrompt(
+  issue: TriageIssue,
+  labels: Label[],
+  comments: IssueNote[],
+): string {
+  const labelList = labels
+    .map((label) =>
+      label.description
+        ? `- ${label.name}: ${label.description}`
+        : `- ${label.name}`,
+    )
+    .join("\n");
+  const commentList = comments
+    .map((note) => `@${note.author.username} wrote:\n${note.body}`)
+    .join("\n\n");
+
+  return `You're an issue triage assistant for a GitLab project. Your task is to analyze the issue below and select appropriate labels from the list of available labels.
+
+IMPORTANT: Do not modify any files. Your only output is the list of labels to apply.
+
+<available_labels>
+${labelList}
+</available_labels>
+
+<issue>
+Issue #${issue.iid}: ${issue.title}
+Current labels: ${issue.labels.length > 0 ? issue.labels.join(", ") : "none"}
+
+${issue.description?.trim() || "(no description)"}
+</issue>
+${commentList ? `\n<comments>\n${commentList}\n</comments>\n` : ""}
+Consider the type of issue (bug report, feature request, question, etc.), the technical areas and components mentioned, severity or priority indicators, and user impact. You may read the repository to understand which components are affected.
+
+Only select labels from the available labels list. It's okay to select no labels if none are clearly applicable.
+
+End your final response with a fenced code block tagged \`claude-labels\` containing a JSON array of the label names to apply, for example:
+\`\`\`claude-labels
+["bug", "priority::high"]
+\`\`\``;
+}
+
+export function extractProposedLabels(output: string): string[] {
+  const result = findResultEvent(parseStreamJson(output));
+  const match = result?.result && LABELS_BLOCK_PATTERN.exec(result.result);
+  if (!match) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(match[1]!);
+    return Array.isArray(parsed)
+      ? parsed.filter((label): label is string => typeof label === "string")
+      : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * Maps proposed labels onto existing project labels (case-insensitively) and
+ * returns the ones that do not exist separately so they can be reported.
+ */
+export function selectExistingLabels(
+  proposed: string[],
+  available: Label[],
+): { labels: string[]; unknown: string[] } {
+  const byName = new Map(
+    available.map((label) => [label.name.toLowerCase(), label.name]),
+  );
+  const labels = new Set<string>();
+  const unknown: string[] = [];
+
+  for (const name of proposed) {
+    const existing = byName.get(name.trim().toLowerCase());
+    if (existing) {
+      labels.add(existing);
+    } else {
+      unknown.push(name);
+    }
+  }
+
+  return { labels: [...labels], unknown };
+}
+
+export async function applyIssueLabels(
+  config: GitLabApiConfig,
+  issueIid: string,
+  labels: string[],
+): Promise<TriageIssue> {
+  return gitlabRequest<TriageIssue>(
+    config,
+    "PUT",
+    projectPath(config, `/issues/${issueIid}`),
+    { add_labels: labels.join(",") },
+  );
+}
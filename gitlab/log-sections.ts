@@ -0,0 +1,231 @@
+/**
+ * Groups Claude's stream-json output into collapsible GitLab job log
+ * sections: one per assistant turn, and one per tool call nested inside it.
+ *
+ * Tool sections are buffered until the tool's result arrives, so their header
+ * can show the duration and large ones can start collapsed. Turn sections are
+ * written as they happen so the live log keeps moving.
+ * See https://docs.gitlab.com/ee/ci/jobs/job_logs.html#custom-collapsible-sections
+ */
+
+import {
+  eventContent,
+  eventMessage,
+  formatDuration,
+  parseStreamEvent,
+  summarizeToolInput,
+} from "../src/stream-json";
+import type { StreamRenderer } from "../src/transcript";
+
+type ContentBlock = {
+  type: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+};
+
+type PendingTool = {
+  id: string;
+  name: string;
+  summary: string;
+  startedAt: number;
+  lines: string[];
+  completed?: boolean;
+};
+
+// Tool sections with more lines than this start collapsed
+export const COLLAPSE_THRESHOLD_LINES = 20;
+
+export function sectionStart(
+  name: string,
+  header: string,
+  timeMs: number,
+  collapsed = false,
+): string {
+  const options = collapsed ? "[collapsed=true]" : "";
+  return `\x1b[0Ksection_start:${Math.floor(timeMs / 1000)}:${name}${options}\r\x1b[0K${header}\n`;
+}
+
+export function sectionEnd(name: string, timeMs: number): string {
+  return `\x1b[0Ksection_end:${Math.floor(timeMs / 1000)}:${name}\r\x1b[0K\n`;
+}
+
+export class LogSectionFormatter implements StreamRenderer {
+  private partialLine = "";
+  private turn?: { messageId: string; section: string };
+  private turnCount = 0;
+  private sectionCount = 0;
+  private tool?: PendingTool;
+  // Tools whose section was closed before their result arrived
+  private detachedTools = new Map<string, PendingTool>();
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    private readonly collapseThreshold = COLLAPSE_THRESHOLD_LINES,
+  ) {}
+
+  /**
+   * Accepts a chunk of raw stdout and returns the log text for every
+   * complete line in it.
+   */
+  push(chunk: string): string {
+    const lines = (this.partialLine + chunk).split("\n");
+    this.partialLine = lines.pop()!;
+    return lines.map((line) => this.formatLine(line)).join("");
+  }
+
+  // Writes any incomplete last line and closes all open sections
+  flush(): string {
+    const rest = this.partialLine ? this.formatLine(this.partialLine) : "";
+    this.partialLine = "";
+    return rest + this.closeTool() + this.closeTurn();
+  }
+
+  private nextSection(kind: string): string {
+    this.sectionCount++;
+    return `claude_${kind}_${this.sectionCount}`;
+  }
+
+  private formatLine(line: string): string {
+    if (line.trim() === "") {
+      return "";
+    }
+
+    const event = parseStreamEvent(line);
+    if (!event) {
+      return this.write(`${line}\n`);
+    }
+
+    const pretty = `${JSON.stringify(event, null, 2)}\n`;
+    const content = eventContent<ContentBlock>(event);
+
+    if (event.type === "system" && event.subtype === "init") {
+      const time = this.now();
+      const section = this.nextSection("init");
+      const tools = Array.isArray(event.tools) ? event.tools.length : 0;
+      return (
+        sectionStart(
+          section,
+          `Claude session started (model ${event.model ?? "unknown"}, ${tools} tools)`,
+          time,
+          true,
+        ) +
+        pretty +
+        sectionEnd(section, time)
+      );
+    }
+
+    if (event.type === "assistant") {
+      let out = "";
+      const messageId = eventMessage(event)?.id ?? `turn-${this.turnCount + 1}`;
+      if (this.turn?.messageId !== messageId) {
+        out += this.closeTool() + this.closeTurn();
+        this.turnCount++;
+        this.turn = { messageId, section: this.nextSection("turn") };
+        out += sectionStart(
+          this.turn.section,
+          `Assistant turn ${this.turnCount}`,
+          this.now(),
+        );
+      }
+
+      const toolUses = content.filter((block) => block.type === "tool_use");
+      if (toolUses.length === 0) {
+        return out + this.write(pretty);
+      }
+
+      // Parallel tool calls: earlier ones get their result in a section of its own
+      for (const block of toolUses) {
+        out += this.closeTool();
+        this.tool = {
+          id: block.id ?? "",
+          name: block.name ?? "tool",
+          summary: summarizeToolInput(block.input),
+          startedAt: this.now(),
+          lines: [],
+        };
+      }
+      this.tool!.lines.push(pretty);
+      return out;
+    }
+
+    const resultFor = content.find(
+      (block) => block.type === "tool_result",
+    )?.tool_use_id;
+    if (event.type === "user" && resultFor) {
+      if (this.tool?.id === resultFor) {
+        this.tool.lines.push(pretty);
+        this.tool.completed = true;
+        return this.closeTool();
+      }
+
+      const detached = this.detachedTools.get(resultFor);
+      if (detached) {
+        this.detachedTools.delete(resultFor);
+        return this.writeToolSection(
+          { ...detached, lines: [pretty], completed: true },
+          `Result of ${detached.name}`,
+        );
+      }
+    }
+
+    if (event.type === "result") {
+      return this.closeTool() + this.closeTurn() + pretty;
+    }
+
+    return this.write(pretty);
+  }
+
+  // Output belongs to the pending tool section while one is open
+  private write(text: string): string {
+    if (this.tool) {
+      this.tool.lines.push(text);
+      return "";
+    }
+    return text;
+  }
+
+  private writeToolSection(tool: PendingTool, title: string): string {
+    const endedAt = this.now();
+    const section = this.nextSection("tool");
+    const lines = tool.lines.join("");
+    const lineCount = lines.split("\n").length - 1;
+    const summary = tool.summary ? `: ${tool.summary}` : "";
+    const status = tool.completed
+      ? formatDuration(endedAt - tool.startedAt)
+      : "waiting for result";
+    return (
+      sectionStart(
+        section,
+        `${title}${summary} (${status})`,
+        tool.startedAt,
+        lineCount > this.collapseThreshold,
+      ) +
+      lines +
+      sectionEnd(section, endedAt)
+    );
+  }
+
+  private closeTool(): string {
+    if (!this.tool) {
+      return "";
+    }
+    const tool = this.tool;
+    this.tool = undefined;
+    if (!tool.completed) {
+      // The result will get a section of its own when it arrives
+      this.detachedTools.set(tool.id, tool);
+    }
+    return this.writeToolSection(tool, `Tool ${tool.name}`);
+  }
+
+  private closeTurn(): string {
+    if (!this.turn) {
+      return "";
+    }
+    const { section } = this.turn;
+    this.turn = undefined;
+    return sectionEnd(section, this.now());
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Builds a merge request context block (metadata, changed files and diff)
+ * that is prepended to the prompt, so review jobs get useful context without
+ * per-project scripting.
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { gitlabRequest, projectPath, type GitLabApiConfig } from "./gitlab-api";
+import { splitGitDiff, type ChangedFile } from "./unified-diff";
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_CONTEXT_MAX_BYTES = 100_000;
+export const DEFAULT_CONTEXT_MAX_FILE_BYTES = 20_000;
+
+export type MergeRequestContext = {
+  iid: string;
+  title: string;
+  description: string;
+  sourceBranch: string;
+  targetBranch: string;
+  files: ChangedFile[];
+};
+
+export type ContextLimits = {
+  maxBytes: number;
+  maxFileBytes: number;
+};
+
+type MergeRequestChangesResponse = {
+  title: string;
+  description: string | null;
+  source_branch: string;
+  target_branch: string;
+  changes: {
+    old_path: string;
+    new_path: string;
+    new_file: boolean;
+    renamed_file: boolean;
+    deleted_file: boolean;
+    diff: string;
+  }[];
+};
+
+export async function collectLocalChanges(
+  baseSha: string,
+  cwd?: string,
+): Promise<ChangedFile[]> {
+  const { stdout } = await execFileAsync(
+    "git",
+    ["diff", "--no-color", "--no-ext-diff", "--find-renames", baseSha, "HEAD"],
+    { cwd, maxBuffer: 50 * 1024 * 1024 },
+  );
+  return splitGitDiff(stdout);
+}
+
+export async function fetchMergeRequestChanges(
+  config: GitLabApiConfig,
+  mergeRequestIid: string,
+): Promise<Omit<MergeRequestContext, "iid">> {
+  const response = await gitlabRequest<MergeRequestChangesResponse>(
+    config,
+    "GET",
+    projectPath(config, `/merge_requests/${mergeRequestIid}/changes`),
+  );
+
+  return {
+    title: response.title,
+    description: response.description ?? "",
+    sourceBranch: response.source_branch,
+    targetBranch: response.target_branch,
+    files: response.changes.map((change) => ({
+      oldPath: change.old_path,
+      newPath: change.new_path,
+      status: change.new_file
+        ? "added"
+        : change.deleted_file
+          ? "deleted"
+          : change.renamed_file
+            ? "renamed"
+            : "modified",
+      diff: change.diff.replace(/\n$/, ""),
+    })),
+  };
+}
+
+function byteLength(text: string): number {
+  return Buffer.byteLength(text, "utf-8");
+}
+
+// Cut at the last complete line that fits within maxBytes
+function truncateToBytes(text: string, maxBytes: number): string {
+  const cut = Buffer.from(text, "utf-8")
+    .subarray(0, maxBytes)
+    .toString("utf-8")
+    .replace(/�$/, "");
+  const lastNewline = cut.lastIndexOf("\n");
+  return lastNewline > 0 ? cut.slice(0, lastNewline) : cut;
+}
+
+function describeFile(file: ChangedFile): string {
+  if (file.status === "renamed") {
+    return `- renamed: ${file.oldPath} → ${file.newPath}`;
+  }
+  return `- ${file.status}: ${file.newPath}`;
+}
+
+export function formatMergeRequestContext(
+  context: MergeRequestContext,
+  limits: ContextLimits,
+): string {
+  const sections: string[] = [
+    `Merge request !${context.iid}: ${context.title}`,
+    `Source branch: ${context.sourceBranch}`,
+    `Target branch: ${context.targetBranch}`,
+  ];
+
+  if (context.description.trim()) {
+    sections.push(`\nDescription:\n${context.description.trim()}`);
+  }
+
+  sections.push(
+    `\nChanged files (${context.files.length}):\n${context.files.map(describeFile).join("\n")}`,
+  );
+
+  let remaining = limits.maxBytes;
+  const diffs: string[] = [];
+  const omitted: string[] = [];
+
+  for (const file of context.files) {
+    if (!file.diff) continue;
+
+    let diff = file.diff;
+    if (byteLength(diff) > limits.maxFileBytes) {
+      const truncated = truncateToBytes(diff, limits.maxFileBytes);
+      diff = `${truncated}\n... [diff truncated, ${byteLength(diff) - byteLength(truncated)} more bytes]`;
+    }
+
+    const entry = `--- a/${file.oldPath}\n+++ b/${file.newPath}\n${diff}`;
+    if (byteLength(entry) > remaining) {
+      omitted.push(file.newPath);
+      continue;
+    }
+    remaining -= byteLength(entry);
+    diffs.push(entry);
+  }
+
+  if (diffs.length > 0) {
+    sections.push(`\nDiff:\n\`\`\`diff\n${diffs.join("\n")}\n\`\`\``);
+  }
+  if (omitted.length > 0) {
+    sections.push(
+      `\nDiff omitted for ${omitted.length} file(s) because the context size limit was reached:\n${omitted.map((path) => `- ${path}`).join("\n")}`,
+    );
+  }
+
+  return `<merge_request_context>\n${sections.join("\n")}\n</merge_request_context>`;
+}
+
+function parseLimit(name: string, value: string | undefined, fallback: number) {
+  if (!value) {
+    return fallback;
+  }
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number, got: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Collects the merge request context from the pipeline environment. The diff
+ * comes from local git against CI_MERGE_REQUEST_DIFF_BASE_SHA; when that fails
+ * (e.g. a shallow clone without the base commit) and the API fallback is
+ * enabled, metadata and diff are fetched from the merge request changes API.
+ */
+export async function buildMergeRequestContext(
+  env: NodeJS.ProcessEnv,
+  getApiConfig: () => GitLabApiConfig,
+): Promise<string> {
+  const iid = env.CI_MERGE_REQUEST_IID;
+  if (!iid) {
+    throw new Error(
+      "CLAUDE_MR_CONTEXT requires a merge request pipeline (CI_MERGE_REQUEST_IID is not set).",
+    );
+  }
+
+  const limits: ContextLimits = {
+    maxBytes: parseLimit(
+      "CLAUDE_MR_CONTEXT_MAX_BYTES",
+      env.CLAUDE_MR_CONTEXT_MAX_BYTES,
+      DEFAULT_CONTEXT_MAX_BYTES,
+    ),
+    maxFileBytes: parseLimit(
+      "CLAUDE_MR_CONTEXT_MAX_FILE_BYTES",
+      env.CLAUDE_MR_CONTEXT_MAX_FILE_BYTES,
+      DEFAULT_CONTEXT_MAX_FILE_BYTES,
+    ),
+  };
+
+  const context: MergeRequestContext = {
+    iid,
+    title: env.CI_MERGE_REQUEST_TITLE || "",
+    description: env.CI_MERGE_REQUEST_DESCRIPTION || "",
+    sourceBranch: env.CI_MERGE_REQUEST_SOURCE_BRANCH_NAME || "",
+    targetBranch: env.CI_MERGE_REQUEST_TARGET_BRANCH_NAME || "",
+    files: [],
+  };
+
+  const baseSha = env.CI_MERGE_REQUEST_DIFF_BASE_SHA;
+  let localError: unknown;
+  if (baseSha) {
+    try {
+      context.files = await collectLocalChanges(baseSha, env.CI_PROJECT_DIR);
+      return formatMergeRequestContext(context, limits);
+    } catch (error) {
+      localError = error;
+    }
+  } else {
+    localError = "CI_MERGE_REQUEST_DIFF_BASE_SHA is not set";
+  }
+
+  if (env.CLAUDE_MR_CONTEXT_API_FALLBACK !== "true") {
+    throw new Error(
+      `Failed to collect merge request diff from git: ${localError}. Set CLAUDE_MR_CONTEXT_API_FALLBACK=true to fetch it from the GitLab API instead.`,
+    );
+  }
+
+  console.log(
+    `Failed to collect merge request diff from git (${localError}), falling back to the GitLab API`,
+  );
+  const fetched = await fetchMergeRequestChanges(getApiConfig(), iid);
+  return formatMergeRequestContext({ iid, ...fetched }, limits);
+}
@@ -0,0 +1,133 @@
+/**
+ * Posts Claude's progress and final result back to the merge request as a
+ * single "sticky" note. The note carries a hidden marker so later runs of the
+ * same job can find it and edit it in place instead of adding another one.
+ */
+
+import { gitlabRequest, projectPath, type GitLabApiConfig } from "./gitlab-api";
+import { findResultEvent, parseStreamJson } from "../src/stream-json";
+import { stripFindingsBlock } from "./review-findings";
+
+export type MergeRequestNote = {
+  id: number;
+  body: string;
+};
+
+const NOTES_PER_PAGE = 100;
+const TIMEOUT_EXIT_CODE = 124;
+
+export function stickyNoteMarker(jobName?: string): string {
+  return `<!-- claude-code-gitlab-ci:${jobName || "claude"} -->`;
+}
+
+export async function postMergeRequestNote(
+  config: GitLabApiConfig,
+  mergeRequestIid: string,
+  body: string,
+): Promise<MergeRequestNote> {
+  return gitlabRequest<MergeRequestNote>(
+    config,
+    "POST",
+    projectPath(config, `/merge_requests/${mergeRequestIid}/notes`),
+    { body },
+  );
+}
+
+export async function updateMergeRequestNote(
+  config: GitLabApiConfig,
+  mergeRequestIid: string,
+  noteId: number,
+  body: string,
+): Promise<MergeRequestNote> {
+  return gitlabRequest<MergeRequestNote>(
+    config,
+    "PUT",
+    projectPath(config, `/merge_requests/${mergeRequestIid}/notes/${noteId}`),
+    { body },
+  );
+}
+
+export async function findStickyNote(
+  config: GitLabApiConfig,
+  mergeRequestIid: string,
+  marker: string,
+): Promise<MergeRequestNote | undefined> {
+  for (let page = 1; ; page++) {
+    const notes = await gitlabRequest<MergeRequestNote[]>(
+      config,
+      "GET",
+      projectPath(
+        config,
+        `/merge_requests/${mergeRequestIid}/notes?sort=asc&per_page=${NOTES_PER_PAGE}&page=${page}`,
+      ),
+    );
+
+    const existing = notes.find((note) => note.body.includes(marker));
+    if (existing) {
+      return existing;
+    }
+    if (notes.length < NOTES_PER_PAGE) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Creates the sticky note, or replaces the body of the one a previous run left.
+ */
+export async function upsertStickyNote(
+  config: GitLabApiConfig,
+  mergeRequestIid: string,
+  marker: string,
+  content: string,
+): Promise<MergeRequestNote> {
+  const body = `${marker}\n${content}`;
+  const existing = await findStickyNote(config, mergeRequestIid, marker);
+  if (existing) {
+    return updateMergeRequestNote(config, mergeRequestIid, existing.id, body);
+  }
+  return postMergeRequestNote(config, mergeRequestIid, body);
+}
+
+function jobLink(jobUrl?: string): string {
+  return jobUrl ? `\n\n[View job log](${jobUrl})` : "";
+}
+
+export function formatRunningNote(jobUrl?: string): string {
+  return `### Claude Code is running…${jobLink(jobUrl)}`;
+}
+
+/**
+ * Builds the note body from the final `result` event of the stream-json
+ * output. Returns undefined when the run produced no result to report.
+ */
+export function formatResultNote(output: string): string | undefined {
+  const result = findResultEvent(parseStreamJson(output));
+  if (!result || !result.result) {
+    return undefined;
+  }
+
+  const heading = result.is_error
+    ? "### Claude Code finished with an error"
+    : "### Claude Code result";
+  return `${heading}\n\n${stripFindingsBlock(result.result)}`;
+}
+
+export function formatFailureNote(
+  exitCode: number,
+  output: string,
+  jobUrl?: string,
+  budgetExceeded = false,
+): string {
+  const heading = budgetExceeded
+    ? "### Claude Code was stopped for exceeding its budget"
+    : exitCode === TIMEOUT_EXIT_CODE
+      ? `### Claude Code timed out (exit code ${exitCode})`
+      : `### Claude Code failed (exit code ${exitCode})`;
+
+  const result = findResultEvent(parseStreamJson(output));
+  const details = result?.result
+    ? `\n\n${stripFindingsBlock(result.result)}`
+    : "";
+  return `${heading}${details}${jobLink(jobUrl)}`;
+}
@@ -0,0 +1,316 @@
+/**
+ * "@claude" mention-driven runs.
+ *
+ * A note webhook payload (handed to a triggered pipeline as TRIGGER_PAYLOAD,
+ * or saved to a file) describes the comment that mentioned Claude. The
+ * comment, its thread and the merge request or issue it belongs to become the
+ * prompt, and Claude's answer is posted back as a reply in the same thread.
+ */
+
+import { readFileSync } from "fs";
+import { git } from "./auto-fix";
+import {
+  GitLabApiError,
+  gitlabRequest,
+  projectPath,
+  type GitLabApiConfig,
+} from "./gitlab-api";
+
+export type Noteable =
+  | {
+      type: "merge_request";
+      iid: number;
+      title: string;
+      description: string | null;
+      sourceBranch: string;
+      targetBranch: string;
+      // The source branch lives in another project
+      fromFork: boolean;
+    }
+  | {
+      type: "issue";
+      iid: number;
+      title: string;
+      description: string | null;
+    };
+
+export type NoteEvent = {
+  noteId: number;
+  discussionId?: string;
+  body: string;
+  author: { id: number; username: string };
+  noteable: Noteable;
+};
+
+// The fields of GitLab's note webhook payload that are read here
+type NotePayload = {
+  object_kind: "note";
+  object_attributes: {
+    id: number;
+    discussion_id?: string | null;
+    note?: string;
+    noteable_type: string;
+  };
+  merge_request?: {
+    iid: number;
+    title: string;
+    description?: string | null;
+    source_branch: string;
+    target_branch: string;
+    source_project_id?: number;
+    target_project_id?: number;
+  };
+  issue?: {
+    iid: number;
+    title: string;
+    description?: string | null;
+  };
+  user: { id: number; username: string };
+};
+
+type ThreadNote = {
+  id: number;
+  body: string;
+  system: boolean;
+  author: { username: string };
+};
+
+// Every note this integration writes starts with a marker of this form
+const BOT_NOTE_MARKER = "<!-- claude-code-gitlab-ci:";
+export const MENTION_REPLY_MARKER = `${BOT_NOTE_MARKER}mention -->`;
+
+export const ACCESS_LEVELS: Record<string, number> = {
+  guest: 10,
+  reporter: 20,
+  developer: 30,
+  maintainer: 40,
+  owner: 50,
+};
+
+/**
+ * Reads the raw webhook payload. CLAUDE_NOTE_PAYLOAD_FILE wins over
+ * TRIGGER_PAYLOAD; GitLab exposes TRIGGER_PAYLOAD as a file variable, but an
+ * inline JSON value is accepted too.
+ */
+export function readNotePayload(
+  env: Record<string, string | undefined> = process.env,
+): string {
+  if (env.CLAUDE_NOTE_PAYLOAD_FILE) {
+    return readFileSync(env.CLAUDE_NOTE_PAYLOAD_FILE, "utf8");
+  }
+
+  const payload = env.TRIGGER_PAYLOAD?.trim();
+  if (!payload) {
+    throw new Error(
+      "No note payload found. Trigger the pipeline from a note webhook (TRIGGER_PAYLOAD) or set CLAUDE_NOTE_PAYLOAD_FILE.",
+    );
+  }
+  return payload.startsWith("{") ? payload : readFileSync(payload, "utf8");
+}
+
+export function parseNoteEvent(payload: string): NoteEvent {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payload);
+  } catch (error) {
+    throw new Error(`Note payload is not valid JSON: ${error}`);
+  }
+
+  const fields: Partial<Record<keyof NotePayload, unknown>> =
+    parsed && typeof parsed === "object" ? parsed : {};
+  if (fields.object_kind !== "note" || !fields.object_attributes) {
+    throw new Error(
+      `Expected a note webhook payload, got object_kind: ${fields.object_kind}`,
+    );
+  }
+  const event = parsed as NotePayload;
+
+  const attributes = event.object_attributes;
+  let noteable: Noteable;
+  if (attributes.noteable_type === "MergeRequest" && event.merge_request) {
+    noteable = {
+      type: "merge_request",
+      iid: event.merge_request.iid,
+      title: event.merge_request.title,
+      description: event.merge_request.description ?? null,
+      sourceBranch: event.merge_request.source_branch,
+      targetBranch: event.merge_request.target_branch,
+      fromFork:
+        event.merge_request.source_project_id !== undefined &&
+        event.merge_request.source_project_id !==
+          event.merge_request.target_project_id,
+    };
+  } else if (attributes.noteable_type === "Issue" && event.issue) {
+    noteable = {
+      type: "issue",
+      iid: event.issue.iid,
+      title: event.issue.title,
+      description: event.issue.description ?? null,
+    };
+  } else {
+    throw new Error(
+      `Unsupported noteable type: ${attributes.noteable_type}. Only merge request and issue comments can trigger Claude.`,
+    );
+  }
+
+  return {
+    noteId: attributes.id,
+    discussionId: attributes.discussion_id || undefined,
+    body: attributes.note ?? "",
+    author: { id: event.user?.id, username: event.user?.username },
+    noteable,
+  };
+}
+
+export function containsTrigger(body: string, triggerPhrase: string): boolean {
+  const escaped = triggerPhrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|\\s)${escaped}([\\s.,!?;:]|$)`).test(body);
+}
+
+/**
+ * A note is the bot's own when it carries one of this integration's markers
+ * or was written by the user the API token belongs to.
+ */
+export function isBotNote(event: NoteEvent, botUserId?: number): boolean {
+  return (
+    event.body.includes(BOT_NOTE_MARKER) ||
+    (botUserId !== undefined && event.author.id === botUserId)
+  );
+}
+
+export function parseAccessLevel(value: string | undefined): number {
+  if (!value) {
+    return ACCESS_LEVELS.developer!;
+  }
+  const level = ACCESS_LEVELS[value.toLowerCase()] ?? Number(value);
+  if (!Number.isInteger(level)) {
+    throw new Error(
+      `Invalid access level: ${value}. Use one of ${Object.keys(ACCESS_LEVELS).join(", ")} or a number.`,
+    );
+  }
+  return level;
+}
+
+export async function fetchCurrentUserId(
+  config: GitLabApiConfig,
+): Promise<number> {
+  const user = await gitlabRequest<{ id: number }>(config, "GET", "/user");
+  return user.id;
+}
+
+/**
+ * Returns the author's effective access level on the project, including
+ * inherited group membership, or 0 when they are not a member.
+ */
+export async function fetchAccessLevel(
+  config: GitLabApiConfig,
+  userId: number,
+): Promise<number> {
+  try {
+    const member = await gitlabRequest<{ access_level: number }>(
+      config,
+      "GET",
+      projectPath(config, `/members/all/${userId}`),
+    );
+    return member.access_level;
+  } catch (error) {
+    if (error instanceof GitLabApiError && error.status === 404) {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+function noteablePath(noteable: Noteable): string {
+  return noteable.type === "merge_request"
+    ? `/merge_requests/${noteable.iid}`
+    : `/issues/${noteable.iid}`;
+}
+
+export async function fetchThreadNotes(
+  config: GitLabApiConfig,
+  event: NoteEvent,
+): Promise<ThreadNote[]> {
+  if (!event.discussionId) {
+    return [];
+  }
+
+  const discussion = await gitlabRequest<{ notes: ThreadNote[] }>(
+    config,
+    "GET",
+    projectPath(
+      config,
+      `${noteablePath(event.noteable)}/discussions/${event.discussionId}`,
+    ),
+  );
+  return discussion.notes.filter(
+    (note) => !note.system && note.id !== event.noteId,
+  );
+}
+
+/**
+ * Checks out the merge request's latest commit as its source branch.
+ * Triggered pipelines run on the webhook's ref, usually the default branch,
+ * and GitLab keeps refs/merge-requests/<iid>/head for merge requests from
+ * forks too. Returns the commit SHA.
+ */
+export async function checkoutMergeRequest(
+  noteable: Extract<Noteable, { type: "merge_request" }>,
+  cwd?: string,
+): Promise<string> {
+  await git(
+    ["fetch", "--quiet", "origin", `+refs/merge-requests/${noteable.iid}/head`],
+    cwd,
+  );
+  await git(
+    ["checkout", "--quiet", "-B", noteable.sourceBranch, "FETCH_HEAD"],
+    cwd,
+  );
+  return git(["rev-parse", "HEAD"], cwd);
+}
+
+export function buildMentionPrompt(
+  event: NoteEvent,
+  thread: ThreadNote[],
+): string {
+  const { noteable } = event;
+  const subject =
+    noteable.type === "merge_request"
+      ? `<merge_request>\nMerge request !${noteable.iid}: ${noteable.title}\nSource branch: ${noteable.sourceBranch} (checked out in the working directory)\nTarget branch: ${noteable.targetBranch}\n\n${noteable.description?.trim() || "(no description)"}\n</merge_request>`
+      : `<issue>\nIssue #${noteable.iid}: ${noteable.title}\n\n${noteable.description?.trim() || "(no description)"}\n</issue>`;
+  const threadNotes = thread
+    .map((note) => `@${note.author.username} wrote:\n${note.body}`)
+    .join("\n\n");
+
+  return `You were mentioned in a comment on a GitLab ${noteable.type === "merge_request" ? "merge request" : "issue"}. Carry out the request in the comment.
+
+${subject}
+${threadNotes ? `\n<thread>\n${threadNotes}\n</thread>\n` : ""}
+<comment>
+@${event.author.username} wrote:
+${event.body}
+</comment>
+
+Your final response is posted as a reply to this comment, so write it for @${event.author.username}.`;
+}
+
+/**
+ * Replies in the thread of the triggering note, or starts a new thread when
+ * the payload carries no discussion id.
+ */
+export async function replyToNote(
+  config: GitLabApiConfig,
+  event: NoteEvent,
+  content: string,
+): Promise<{ id: number }> {
+  const base = noteablePath(event.noteable);
+  const path = event.discussionId
+    ? `${base}/discussions/${event.discussionId}/notes`
+    : `${base}/notes`;
+  return gitlabRequest<{ id: number }>(
+    config,
+    "POST",
+    projectPath(config, path),
+    { body: `${MENTION_REPLY_MARKER}\n${content}` },
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * Posts review findings as positioned diff discussions on a merge request.
+ *
+ * Each finding is mapped onto the latest merge request diff version. Findings
+ * that cannot be positioned (the line is outside the diff, or GitLab rejects
+ * the position) are collected into a single summary note instead. Every
+ * posted finding carries a hidden fingerprint marker so findings already
+ * posted by an earlier run are skipped.
+ */
+
+import {
+  GitLabApiError,
+  gitlabRequest,
+  projectPath,
+  type GitLabApiConfig,
+} from "./gitlab-api";
+import { fetchMergeRequestChanges } from "./merge-request-context";
+import { postMergeRequestNote } from "./merge-request-note";
+import { findingFingerprint, type ReviewFinding } from "./review-findings";
+import { findLinePosition } from "./unified-diff";
+
+export type DiffRefs = {
+  baseSha: string;
+  startSha: string;
+  headSha: string;
+};
+
+export type DiscussionResult = {
+  posted: number;
+  duplicates: number;
+  unpositioned: number;
+};
+
+type MergeRequestVersion = {
+  base_commit_sha: string;
+  start_commit_sha: string;
+  head_commit_sha: string;
+};
+
+type Discussion = {
+  notes: { body: string }[];
+};
+
+const DISCUSSIONS_PER_PAGE = 100;
+const FINGERPRINT_MARKER = /<!-- claude-finding:([0-9a-f]+) -->/g;
+
+function fingerprintMarker(finding: ReviewFinding): string {
+  return `<!-- claude-finding:${findingFingerprint(finding)} -->`;
+}
+
+export async function fetchDiffRefs(
+  config: GitLabApiConfig,
+  mergeRequestIid: string,
+): Promise<DiffRefs> {
+  const versions = await gitlabRequest<MergeRequestVersion[]>(
+    config,
+    "GET",
+    projectPath(config, `/merge_requests/${mergeRequestIid}/versions`),
+  );
+
+  // Versions are returned newest first
+  const latest = versions[0];
+  if (!latest) {
+    throw new Error(`Merge request !${mergeRequestIid} has no diff versions`);
+  }
+
+  return {
+    baseSha: latest.base_commit_sha,
+    startSha: latest.start_commit_sha,
+    headSha: latest.head_commit_sha,
+  };
+}
+
+export async function fetchPostedFingerprints(
+  config: GitLabApiConfig,
+  mergeRequestIid: string,
+): Promise<Set<string>> {
+  const fingerprints = new Set<string>();
+
+  for (let page = 1; ; page++) {
+    const discussions = await gitlabRequest<Discussion[]>(
+      config,
+      "GET",
+      projectPath(
+        config,
+        `/merge_requests/${mergeRequestIid}/discussions?per_page=${DISCUSSIONS_PER_PAGE}&page=${page}`,
+      ),
+    );
+
+    for (const discussion of discussions) {
+      for (const note of discussion.notes) {
+        for (const match of note.body.matchAll(FINGERPRINT_MARKER)) {
+          fingerprints.add(match[1]!);
+        }
+      }
+    }
+
+    if (discussions.length < DISCUSSIONS_PER_PAGE) {
+      return fingerprints;
+    }
+  }
+}
+
+function formatFindingBody(finding: ReviewFinding): string {
+  return `**Claude Code review (${finding.severity})**\n\n${finding.description}\n\n${fingerprintMarker(finding)}`;
+}
+
+export function formatSummaryNote(findings: ReviewFinding[]): string {
+  const items = findings.map(
+    (finding) =>
+      `- **${finding.severity}** \`${finding.file}:${finding.line}\`: ${finding.description} ${fingerprintMarker(finding)}`,
+  );
+  return `### Claude Code review findings outside the diff\n\n${items.join("\n")}`;
+}
+
+export async function postReviewDiscussions(
+  config: GitLabApiConfig,
+  mergeRequestIid: string,
+  findings: ReviewFinding[],
+): Promise<DiscussionResult> {
+  const result: DiscussionResult = {
+    posted: 0,
+    duplicates: 0,
+    unpositioned: 0,
+  };
+
+  const posted = await fetchPostedFingerprints(config, mergeRequestIid);
+  const pending: ReviewFinding[] = [];
+  for (const finding of findings) {
+    const fingerprint = findingFingerprint(finding);
+    if (posted.has(fingerprint)) {
+      result.duplicates++;
+      continue;
+    }
+    // Guard against the same finding appearing twice in one run
+    posted.add(fingerprint);
+    pending.push(finding);
+  }
+  if (pending.length === 0) {
+    return result;
+  }
+
+  const diffRefs = await fetchDiffRefs(config, mergeRequestIid);
+  const { files } = await fetchMergeRequestChanges(config, mergeRequestIid);
+
+  const unpositioned: ReviewFinding[] = [];
+  for (const finding of pending) {
+    const file = files.find(
+      (f) => f.newPath === finding.file && f.status !== "deleted",
+    );
+    const line = file && findLinePosition(file.diff, finding.line);
+    if (!file || !line) {
+      unpositioned.push(finding);
+      continue;
+    }
+
+    try {
+      await gitlabRequest(
+        config,
+        "POST",
+        projectPath(config, `/merge_requests/${mergeRequestIid}/discussions`),
+        {
+          body: formatFindingBody(finding),
+          position: {
+            position_type: "text",
+            base_sha: diffRefs.baseSha,
+            start_sha: diffRefs.startSha,
+            head_sha: diffRefs.headSha,
+            old_path: file.oldPath,
+            new_path: file.newPath,
+            new_line: line.newLine,
+            old_line: line.oldLine,
+          },
+        },
+      );
+      result.posted++;
+    } catch (error) {
+      // GitLab answers 400 when it cannot resolve the position
+      if (error instanceof GitLabApiError && error.status === 400) {
+        unpositioned.push(finding);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  if (unpositioned.length > 0) {
+    await postMergeRequestNote(
+      config,
+      mergeRequestIid,
+      formatSummaryNote(unpositioned),
+    );
+    result.unpositioned = unpositioned.length;
+  }
+
+  return result;
+}
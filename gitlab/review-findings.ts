@@ -0,0 +1,124 @@
+/**
+ * Structured review findings.
+ *
+ * When findings mode is enabled Claude is asked to end its final response with
+ * a fenced `claude-findings` block holding a JSON array of findings, which is
+ * extracted here from the `result` event of the stream-json output.
+ */
+
+import { createHash } from "crypto";
+import { isAbsolute, relative } from "path";
+import { findResultEvent, parseStreamJson } from "../src/stream-json";
+
+export const FINDING_SEVERITIES = [
+  "info",
+  "minor",
+  "major",
+  "critical",
+  "blocker",
+] as const;
+
+export type FindingSeverity = (typeof FINDING_SEVERITIES)[number];
+
+export type ReviewFinding = {
+  file: string;
+  line: number;
+  severity: FindingSeverity;
+  description: string;
+};
+
+export const FINDINGS_INSTRUCTIONS = `When you have finished, end your final response with a fenced code block tagged \`claude-findings\` that contains a JSON array of your review findings. Each finding is an object with:
+- "file": path of the file relative to the repository root
+- "line": 1-based line number in the current version of the file
+- "severity": one of "info", "minor", "major", "critical", "blocker"
+- "description": a concise explanation of the problem and how to fix it
+Use an empty array when there are no findings. Example:
+\`\`\`claude-findings
+[{"file": "src/app.ts", "line": 12, "severity": "major", "description": "Unchecked null dereference of user."}]
+\`\`\``;
+
+// Stable identifier used to de-duplicate findings across reports and runs
+export function findingFingerprint(finding: ReviewFinding): string {
+  return createHash("md5")
+    .update(`${finding.file}:${finding.line}:${finding.description}`)
+    .digest("hex");
+}
+
+const FINDINGS_BLOCK_PATTERN = /```claude-findings[^\n]*\n([\s\S]*?)```/;
+
+function normalizePath(file: string, projectDir?: string): string {
+  if (projectDir && isAbsolute(file)) {
+    return relative(projectDir, file);
+  }
+  return file.replace(/^\.\//, "");
+}
+
+/**
+ * Parses the findings block out of a result text. Entries that do not match
+ * the expected shape are dropped and reported through `onInvalid`.
+ */
+export function parseFindings(
+  text: string,
+  projectDir?: string,
+  onInvalid: (message: string) => void = () => {},
+): ReviewFinding[] {
+  const match = FINDINGS_BLOCK_PATTERN.exec(text);
+  if (!match) {
+    return [];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(match[1]!);
+  } catch (error) {
+    onInvalid(`Findings block is not valid JSON: ${error}`);
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    onInvalid("Findings block is not a JSON array");
+    return [];
+  }
+
+  const findings: ReviewFinding[] = [];
+  entries.forEach((entry, index) => {
+    const { file, line, severity, description } = entry ?? {};
+    const lineNumber = Number(line);
+    if (
+      typeof file !== "string" ||
+      !file ||
+      !Number.isInteger(lineNumber) ||
+      lineNumber < 1 ||
+      typeof description !== "string" ||
+      !description
+    ) {
+      onInvalid(`Skipping malformed finding #${index + 1}`);
+      return;
+    }
+
+    findings.push({
+      file: normalizePath(file, projectDir),
+      line: lineNumber,
+      severity: FINDING_SEVERITIES.includes(severity) ? severity : "info",
+      description: description.trim(),
+    });
+  });
+
+  return findings;
+}
+
+export function extractFindings(
+  output: string,
+  projectDir?: string,
+  onInvalid?: (message: string) => void,
+): ReviewFinding[] {
+  const result = findResultEvent(parseStreamJson(output));
+  if (!result?.result) {
+    return [];
+  }
+  return parseFindings(result.result, projectDir, onInvalid);
+}
+
+// Removes the machine-readable block so it does not clutter human-facing text
+export function stripFindingsBlock(text: string): string {
+  return text.replace(FINDINGS_BLOCK_PATTERN, "").trim();
+}
@@ -1,361 +1,103 @@
 /**
  * GitLab CI Adapter for Claude Execution
- * 
- * This file adapts the GitHub Actions run-claude.ts for GitLab CI environments.
- * Key changes:
- * - Replaces @actions/core with GitLab CI output mechanisms
- * - Uses GitLab CI environment variables and paths
- * - Maintains same core functionality (named pipes, JSON streaming, timeouts)
+ *
+ * Runs Claude with the shared runner in src/run-claude.ts, adapted to GitLab CI:
+ * - Inputs are read from CLAUDE_* CI/CD variables
+ * - Outputs go to the dotenv report through GitLabOutput
+ * - The execution file, claude-result.json and the summary are written to the project directory
+ * - The job log is grouped into collapsible sections by default
  */
 
 import { GitLabOutput } from "./cli";
-import { exec } from "child_process";
-import { promisify } from "util";
-import { unlink, writeFile, stat } from "fs/promises";
-import { createWriteStream } from "fs";
-import { spawn } from "child_process";
-
-const execAsync = promisify(exec);
-
-// GitLab CI paths (equivalent to GitHub Actions RUNNER_TEMP)
-const TEMP_DIR = process.env.RUNNER_TEMP || `${process.env.CI_PROJECT_DIR}/.tmp`;
-const PIPE_PATH = `${TEMP_DIR}/claude_prompt_pipe`;
-const EXECUTION_FILE = `${process.env.CI_PROJECT_DIR}/claude-execution-output.json`;
-const BASE_ARGS = ["-p", "--verbose", "--output-format", "stream-json"];
-
-export type ClaudeOptions = {
-  allowedTools?: string;
-  disallowedTools?: string;
-  maxTurns?: string;
-  mcpConfig?: string;
-  systemPrompt?: string;
-  appendSystemPrompt?: string;
-  claudeEnv?: string;
-  fallbackModel?: string;
-  timeoutMinutes?: string;
-  model?: string;
-};
-
-type PreparedConfig = {
-  claudeArgs: string[];
-  promptPath: string;
-  env: Record<string, string>;
-};
-
-function parseCustomEnvVars(claudeEnv?: string): Record<string, string> {
-  if (!claudeEnv || claudeEnv.trim() === "") {
-    return {};
-  }
-
-  const customEnv: Record<string, string> = {};
-
-  // Split by lines and parse each line as KEY: VALUE
-  const lines = claudeEnv.split("\n");
-
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    if (trimmedLine === "" || trimmedLine.startsWith("#")) {
-      continue; // Skip empty lines and comments
-    }
-
-    const colonIndex = trimmedLine.indexOf(":");
-    if (colonIndex === -1) {
-      continue; // Skip lines without colons
-    }
-
-    const key = trimmedLine.substring(0, colonIndex).trim();
-    const value = trimmedLine.substring(colonIndex + 1).trim();
-
-    if (key) {
-      customEnv[key] = value;
-    }
-  }
-
-  return customEnv;
+import { writeFile } from "fs/promises";
+import { LogSectionFormatter } from "./log-sections";
+import {
+  runClaude,
+  type ClaudeOptions,
+  type ClaudeRunResult,
+} from "../src/run-claude";
+import { LocalAdapter, type LogOptions } from "../src/platform";
+import { findInput } from "../src/inputs";
+import {
+  createStreamRenderer,
+  LOG_FORMATS,
+  resolveColor,
+  type LogFormat,
+  type StreamRenderer,
+} from "../src/transcript";
+
+export type { ClaudeOptions, ClaudeRunResult };
+
+// "sections" (the default) groups the JSON log into collapsible job log sections
+export function createLogRenderer(options: LogOptions): StreamRenderer {
+  const format = options.logFormat?.trim() || "sections";
+  if (
+    format !== "sections" &&
+    !(LOG_FORMATS as readonly string[]).includes(format)
+  ) {
+    throw new Error(
+      `logFormat must be one of sections, ${LOG_FORMATS.join(", ")}, got: ${options.logFormat}`,
+    );
+  }
+  const color = resolveColor(options.logColor, process.stdout);
+  return format === "sections"
+    ? new LogSectionFormatter()
+    : createStreamRenderer(format as LogFormat, color);
 }
 
-export function prepareRunConfig(
-  promptPath: string,
-  options: ClaudeOptions,
-): PreparedConfig {
-  const claudeArgs = [...BASE_ARGS];
+export class GitLabAdapter extends LocalAdapter {
+  readonly name = "GitLab CI";
 
-  if (options.allowedTools) {
-    claudeArgs.push("--allowedTools", options.allowedTools);
-  }
-  if (options.disallowedTools) {
-    claudeArgs.push("--disallowedTools", options.disallowedTools);
-  }
-  if (options.maxTurns) {
-    const maxTurnsNum = parseInt(options.maxTurns, 10);
-    if (isNaN(maxTurnsNum) || maxTurnsNum <= 0) {
-      throw new Error(
-        `maxTurns must be a positive number, got: ${options.maxTurns}`,
-      );
-    }
-    claudeArgs.push("--max-turns", options.maxTurns);
-  }
-  if (options.mcpConfig) {
-    claudeArgs.push("--mcp-config", options.mcpConfig);
-  }
-  if (options.systemPrompt) {
-    claudeArgs.push("--system-prompt", options.systemPrompt);
-  }
-  if (options.appendSystemPrompt) {
-    claudeArgs.push("--append-system-prompt", options.appendSystemPrompt);
-  }
-  if (options.fallbackModel) {
-    claudeArgs.push("--fallback-model", options.fallbackModel);
-  }
-  if (options.model) {
-    claudeArgs.push("--model", options.model);
+  // GitLab has no action inputs; each input is read from its CI/CD variable in src/inputs.ts
+  getInput(name: string): string | undefined {
+    const variable = findInput(name)?.gitlab ?? `CLAUDE_${name.toUpperCase()}`;
+    return this.env[variable];
   }
-  if (options.timeoutMinutes) {
-    const timeoutMinutesNum = parseInt(options.timeoutMinutes, 10);
-    if (isNaN(timeoutMinutesNum) || timeoutMinutesNum <= 0) {
-      throw new Error(
-        `timeoutMinutes must be a positive number, got: ${options.timeoutMinutes}`,
-      );
-    }
-  }
-
-  // Parse custom environment variables
-  const customEnv = parseCustomEnvVars(options.claudeEnv);
 
-  // GitLab CI specific environment variables
-  if (process.env.GITLAB_CI_MODE) {
-    customEnv.GITLAB_CI_INPUTS = process.env.GITLAB_CI_MODE;
+  setOutput(name: string, value: string): void {
+    GitLabOutput.setOutput(name, value);
   }
 
-  return {
-    claudeArgs,
-    promptPath,
-    env: customEnv,
-  };
-}
-
-export async function runClaudeGitLab(promptPath: string, options: ClaudeOptions) {
-  const config = prepareRunConfig(promptPath, options);
-
-  // Ensure temp directory exists
-  const tempDir = TEMP_DIR;
-  require('fs').mkdirSync(tempDir, { recursive: true });
-
-  // Create a named pipe
-  try {
-    await unlink(PIPE_PATH);
-  } catch (e) {
-    // Ignore if file doesn't exist
+  info(message: string): void {
+    GitLabOutput.info(message);
   }
 
-  // Create the named pipe
-  await execAsync(`mkfifo "${PIPE_PATH}"`);
-
-  // Log prompt file size
-  let promptSize = "unknown";
-  try {
-    const stats = await stat(config.promptPath);
-    promptSize = stats.size.toString();
-  } catch (e) {
-    // Ignore error
+  warning(message: string): void {
+    GitLabOutput.warning(message);
   }
 
-  console.log(`Prompt file size: ${promptSize} bytes`);
-
-  // Log custom environment variables if any
-  const customEnvKeys = Object.keys(config.env).filter(
-    (key) => key !== "GITLAB_CI_INPUTS",
-  );
-  if (customEnvKeys.length > 0) {
-    console.log(`Custom environment variables: ${customEnvKeys.join(", ")}`);
+  // GitLab CI paths (equivalent to GitHub Actions RUNNER_TEMP)
+  tempDir(): string {
+    return this.env.RUNNER_TEMP || `${this.outputDir()}/.tmp`;
   }
 
-  // Output to console
-  console.log(`Running Claude with prompt from file: ${config.promptPath}`);
-
-  // Start sending prompt to pipe in background
-  const catProcess = spawn("cat", [config.promptPath], {
-    stdio: ["ignore", "pipe", "inherit"],
-  });
-  const pipeStream = createWriteStream(PIPE_PATH);
-  catProcess.stdout.pipe(pipeStream);
-
-  catProcess.on("error", (error) => {
-    console.error("Error reading prompt file:", error);
-    pipeStream.destroy();
-  });
-
-  const claudeProcess = spawn("claude", config.claudeArgs, {
-    stdio: ["pipe", "pipe", "inherit"],
-    env: {
-      ...process.env,
-      ...config.env,
-    },
-  });
-
-  // Handle Claude process errors
-  claudeProcess.on("error", (error) => {
-    console.error("Error spawning Claude process:", error);
-    pipeStream.destroy();
-  });
-
-  // Capture output for parsing execution metrics
-  let output = "";
-  claudeProcess.stdout.on("data", (data) => {
-    const text = data.toString();
-
-    // Try to parse as JSON and pretty print if it's on a single line
-    const lines = text.split("\n");
-    lines.forEach((line: string, index: number) => {
-      if (line.trim() === "") return;
-
-      try {
-        // Check if this line is a JSON object
-        const parsed = JSON.parse(line);
-        const prettyJson = JSON.stringify(parsed, null, 2);
-        process.stdout.write(prettyJson);
-        if (index < lines.length - 1 || text.endsWith("\n")) {
-          process.stdout.write("\n");
-        }
-      } catch (e) {
-        // Not a JSON object, print as is
-        process.stdout.write(line);
-        if (index < lines.length - 1 || text.endsWith("\n")) {
-          process.stdout.write("\n");
-        }
-      }
-    });
-
-    output += text;
-  });
-
-  // Handle stdout errors
-  claudeProcess.stdout.on("error", (error) => {
-    console.error("Error reading Claude stdout:", error);
-  });
-
-  // Pipe from named pipe to Claude
-  const pipeProcess = spawn("cat", [PIPE_PATH]);
-  pipeProcess.stdout.pipe(claudeProcess.stdin);
-
-  // Handle pipe process errors
-  pipeProcess.on("error", (error) => {
-    console.error("Error reading from named pipe:", error);
-    claudeProcess.kill("SIGTERM");
-  });
-
-  // Wait for Claude to finish with timeout
-  let timeoutMs = 10 * 60 * 1000; // Default 10 minutes
-  if (options.timeoutMinutes) {
-    timeoutMs = parseInt(options.timeoutMinutes, 10) * 60 * 1000;
-  } else if (process.env.CLAUDE_TIMEOUT_MINUTES) {
-    const envTimeout = parseInt(process.env.CLAUDE_TIMEOUT_MINUTES, 10);
-    if (isNaN(envTimeout) || envTimeout <= 0) {
-      throw new Error(
-        `CLAUDE_TIMEOUT_MINUTES must be a positive number, got: ${process.env.CLAUDE_TIMEOUT_MINUTES}`,
-      );
-    }
-    timeoutMs = envTimeout * 60 * 1000;
+  // Kept in the project directory so the template can upload them as artifacts
+  outputDir(): string {
+    return this.env.CI_PROJECT_DIR || process.cwd();
   }
-  
-  const exitCode = await new Promise<number>((resolve) => {
-    let resolved = false;
-
-    // Set a timeout for the process
-    const timeoutId = setTimeout(() => {
-      if (!resolved) {
-        console.error(
-          `Claude process timed out after ${timeoutMs / 1000} seconds`,
-        );
-        claudeProcess.kill("SIGTERM");
-        // Give it 5 seconds to terminate gracefully, then force kill
-        setTimeout(() => {
-          try {
-            claudeProcess.kill("SIGKILL");
-          } catch (e) {
-            // Process may already be dead
-          }
-        }, 5000);
-        resolved = true;
-        resolve(124); // Standard timeout exit code
-      }
-    }, timeoutMs);
 
-    claudeProcess.on("close", (code) => {
-      if (!resolved) {
-        clearTimeout(timeoutId);
-        resolved = true;
-        resolve(code || 0);
-      }
-    });
-
-    claudeProcess.on("error", (error) => {
-      if (!resolved) {
-        console.error("Claude process error:", error);
-        clearTimeout(timeoutId);
-        resolved = true;
-        resolve(1);
-      }
-    });
-  });
-
-  // Clean up processes
-  try {
-    catProcess.kill("SIGTERM");
-  } catch (e) {
-    // Process may already be dead
-  }
-  try {
-    pipeProcess.kill("SIGTERM");
-  } catch (e) {
-    // Process may already be dead
+  async writeSummary(markdown: string): Promise<void> {
+    const summaryPath =
+      this.env.CLAUDE_SUMMARY_FILE || `${this.outputDir()}/claude-summary.md`;
+    await writeFile(summaryPath, markdown);
+    GitLabOutput.info(`Wrote execution summary to ${summaryPath}`);
   }
 
-  // Clean up pipe file
-  try {
-    await unlink(PIPE_PATH);
-  } catch (e) {
-    // Ignore errors during cleanup
+  createLogRenderer(options: LogOptions): StreamRenderer {
+    return createLogRenderer(options);
   }
 
-  // Set conclusion based on exit code
-  if (exitCode === 0) {
-    // Try to process the output and save execution metrics
-    try {
-      await writeFile("output.txt", output);
-
-      // Process output.txt into JSON and save to execution file
-      // Increase maxBuffer from Node.js default of 1MB to 10MB to handle large Claude outputs
-      const { stdout: jsonOutput } = await execAsync("jq -s '.' output.txt", {
-        maxBuffer: 10 * 1024 * 1024,
-      });
-      await writeFile(EXECUTION_FILE, jsonOutput);
-
-      console.log(`Log saved to ${EXECUTION_FILE}`);
-    } catch (e) {
-      GitLabOutput.warning(`Failed to process output for execution metrics: ${e}`);
-    }
-
-    GitLabOutput.setOutput("conclusion", "success");
-    GitLabOutput.setOutput("execution_file", EXECUTION_FILE);
-  } else {
-    GitLabOutput.setOutput("conclusion", "failure");
-
-    // Still try to save execution file if we have output
-    if (output) {
-      try {
-        await writeFile("output.txt", output);
-        // Increase maxBuffer from Node.js default of 1MB to 10MB to handle large Claude outputs
-        const { stdout: jsonOutput } = await execAsync("jq -s '.' output.txt", {
-          maxBuffer: 10 * 1024 * 1024,
-        });
-        await writeFile(EXECUTION_FILE, jsonOutput);
-        GitLabOutput.setOutput("execution_file", EXECUTION_FILE);
-      } catch (e) {
-        // Ignore errors when processing output during failure
-      }
-    }
-
-    process.exit(exitCode);
+  // GitLab CI specific environment variables
+  claudeEnv(): Record<string, string> {
+    return this.env.GITLAB_CI_MODE
+      ? { GITLAB_CI_INPUTS: this.env.GITLAB_CI_MODE }
+      : {};
   }
-}
\ No newline at end of file
+}
+
+export function runClaudeGitLab(
+  promptPath: string,
+  options: ClaudeOptions,
+): Promise<ClaudeRunResult> {
+  return runClaude(promptPath, options, new GitLabAdapter());
+}
@@ -0,0 +1,182 @@
+/**
+ * Claude sessions persisted across pipelines.
+ *
+ * Claude Code keeps each conversation as a transcript in
+ * `~/.claude/projects/<project>/<session id>.jsonl`, which is lost with the
+ * job's container. After a run, the transcript of its session is copied to a
+ * directory that the template caches, under a key for the merge request or
+ * branch; the next run on the same key copies it back and resumes it with
+ * `--resume`, so a follow-up job does not have to re-discover everything.
+ * The cache is readable by later jobs, so the saved copy is masked like the
+ * job log.
+ */
+
+import { copyFile, mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { createRedactor, type Redactor } from "../src/redact";
+import { parseStreamJson } from "../src/stream-json";
+
+export type SessionStoreOptions = {
+  dir: string;
+  key: string;
+  maxAgeHours: number;
+  // Ignore the stored session; the new one is still saved
+  fresh: boolean;
+};
+
+export type StoredSession = {
+  session_id: string;
+  saved_at: string;
+};
+
+export const DEFAULT_SESSION_MAX_AGE_HOURS = 168;
+
+const METADATA_FILE = "session.json";
+
+/**
+ * The key runs share a session under: the merge request, or else the
+ * branch. Returns undefined when the pipeline has neither.
+ */
+export function sessionKey(env: NodeJS.ProcessEnv): string | undefined {
+  const branch = env.CI_COMMIT_REF_SLUG || env.CI_COMMIT_BRANCH;
+  const key =
+    env.CLAUDE_SESSION_KEY ||
+    (env.CI_MERGE_REQUEST_IID && `mr-${env.CI_MERGE_REQUEST_IID}`) ||
+    (branch && `branch-${branch}`);
+  return key ? key.replace(/[^A-Za-z0-9._-]/g, "-") : undefined;
+}
+
+// Returns undefined unless CLAUDE_SESSION_PERSIST is enabled
+export function parseSessionStoreOptions(
+  env: NodeJS.ProcessEnv,
+): SessionStoreOptions | undefined {
+  if (env.CLAUDE_SESSION_PERSIST !== "true") {
+    return undefined;
+  }
+
+  const key = sessionKey(env);
+  if (!key) {
+    throw new Error(
+      "CLAUDE_SESSION_PERSIST requires CLAUDE_SESSION_KEY, CI_MERGE_REQUEST_IID or CI_COMMIT_REF_SLUG to be set.",
+    );
+  }
+
+  const maxAge = env.CLAUDE_SESSION_MAX_AGE_HOURS?.trim();
+  const maxAgeHours = maxAge ? Number(maxAge) : DEFAULT_SESSION_MAX_AGE_HOURS;
+  if (isNaN(maxAgeHours) || maxAgeHours <= 0) {
+    throw new Error(
+      `CLAUDE_SESSION_MAX_AGE_HOURS must be a positive number, got: ${env.CLAUDE_SESSION_MAX_AGE_HOURS}`,
+    );
+  }
+
+  return {
+    dir:
+      env.CLAUDE_SESSION_DIR ||
+      `${env.CI_PROJECT_DIR || process.cwd()}/.claude-sessions`,
+    key,
+    maxAgeHours,
+    fresh: env.CLAUDE_SESSION_FRESH === "true",
+  };
+}
+
+// Where Claude Code keeps the transcripts of sessions started in `cwd`
+export function claudeProjectDir(
+  cwd: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  const configDir = env.CLAUDE_CONFIG_DIR || join(homedir(), ".claude");
+  return join(configDir, "projects", cwd.replace(/[^A-Za-z0-9]/g, "-"));
+}
+
+// The session of a run, from the last event that names one
+export function findSessionId(output: string): string | undefined {
+  const sessionIds = parseStreamJson(output)
+    .map((event) => event.session_id)
+    .filter(
+      (sessionId): sessionId is string =>
+        typeof sessionId === "string" && !!sessionId,
+    );
+  return sessionIds[sessionIds.length - 1];
+}
+
+/**
+ * Copies the stored session for the key back to where Claude Code looks for
+ * it and returns its id, or returns undefined when the run should start a
+ * new conversation.
+ */
+export async function restoreSession(
+  options: SessionStoreOptions,
+  projectDir: string,
+  now = Date.now(),
+  log: (message: string) => void = console.log,
+): Promise<string | undefined> {
+  if (options.fresh) {
+    log(
+      `Starting a new session for ${options.key} (CLAUDE_SESSION_FRESH is set)`,
+    );
+    return undefined;
+  }
+
+  const keyDir = join(options.dir, options.key);
+  let stored: StoredSession;
+  try {
+    stored = JSON.parse(await readFile(join(keyDir, METADATA_FILE), "utf-8"));
+  } catch (e) {
+    log(`No stored session for ${options.key}; starting a new one`);
+    return undefined;
+  }
+
+  const ageHours = (now - Date.parse(stored.saved_at)) / (60 * 60 * 1000);
+  if (!(ageHours <= options.maxAgeHours)) {
+    log(
+      `The stored session for ${options.key} is older than ${options.maxAgeHours} hours; starting a new one`,
+    );
+    await rm(keyDir, { recursive: true, force: true });
+    return undefined;
+  }
+
+  const transcript = `${stored.session_id}.jsonl`;
+  try {
+    await mkdir(projectDir, { recursive: true });
+    await copyFile(join(keyDir, transcript), join(projectDir, transcript));
+  } catch (e) {
+    log(
+      `Failed to restore session ${stored.session_id}: ${e}; starting a new one`,
+    );
+    return undefined;
+  }
+
+  log(`Resuming session ${stored.session_id} for ${options.key}`);
+  return stored.session_id;
+}
+
+/**
+ * Stores the transcript of a session under the key, replacing the previous
+ * one. Secrets in the transcript are masked before it is written.
+ */
+export async function saveSession(
+  options: SessionStoreOptions,
+  projectDir: string,
+  sessionId: string,
+  now = Date.now(),
+  redactor: Redactor = createRedactor(),
+): Promise<void> {
+  const keyDir = join(options.dir, options.key);
+  const transcript = `${sessionId}.jsonl`;
+  await mkdir(keyDir, { recursive: true });
+
+  for (const file of await readdir(keyDir)) {
+    if (file !== transcript) {
+      await rm(join(keyDir, file), { force: true });
+    }
+  }
+  const text = await readFile(join(projectDir, transcript), "utf-8");
+  await writeFile(join(keyDir, transcript), redactor.redact(text));
+
+  const stored: StoredSession = {
+    session_id: sessionId,
+    saved_at: new Date(now).toISOString(),
+  };
+  await writeFile(join(keyDir, METADATA_FILE), JSON.stringify(stored, null, 2));
+}
@@ -0,0 +1,110 @@
+/**
+ * Splits `git diff` output into one entry per changed file.
+ */
+
+export type FileChangeStatus = "added" | "deleted" | "renamed" | "modified";
+
+export type ChangedFile = {
+  oldPath: string;
+  newPath: string;
+  status: FileChangeStatus;
+  diff: string;
+};
+
+const FILE_HEADER = /^diff --git a\/(.+) b\/(.+)$/;
+
+export function splitGitDiff(diffText: string): ChangedFile[] {
+  const files: ChangedFile[] = [];
+  let current: ChangedFile | undefined;
+  let lines: string[] = [];
+
+  const flush = () => {
+    if (current) {
+      // Keep only the hunks, the header is summarised by status and paths
+      const hunkStart = lines.findIndex((line) => line.startsWith("@@"));
+      current.diff = hunkStart === -1 ? "" : lines.slice(hunkStart).join("\n");
+      files.push(current);
+    }
+  };
+
+  for (const line of diffText.split("\n")) {
+    const header = FILE_HEADER.exec(line);
+    if (header) {
+      flush();
+      current = {
+        oldPath: header[1]!,
+        newPath: header[2]!,
+        status: "modified",
+        diff: "",
+      };
+      lines = [];
+      continue;
+    }
+    if (!current) continue;
+
+    if (line.startsWith("new file mode")) {
+      current.status = "added";
+    } else if (line.startsWith("deleted file mode")) {
+      current.status = "deleted";
+    } else if (line.startsWith("rename from ")) {
+      current.status = "renamed";
+      current.oldPath = line.slice("rename from ".length);
+    } else if (line.startsWith("rename to ")) {
+      current.newPath = line.slice("rename to ".length);
+    }
+    lines.push(line);
+  }
+  flush();
+
+  // Drop the empty line left by the trailing newline of git's output
+  for (const file of files) {
+    file.diff = file.diff.replace(/\n$/, "");
+  }
+
+  return files;
+}
+
+export type LinePosition = {
+  oldLine?: number;
+  newLine: number;
+};
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Locates a line of the new file version within a file's diff hunks. Added
+ * lines only have a new line number, unchanged context lines have both.
+ * Returns undefined when the line is not part of the diff.
+ */
+export function findLinePosition(
+  diff: string,
+  newLine: number,
+): LinePosition | undefined {
+  let oldCursor = 0;
+  let newCursor = 0;
+  let inHunk = false;
+
+  for (const line of diff.split("\n")) {
+    const hunk = HUNK_HEADER.exec(line);
+    if (hunk) {
+      oldCursor = parseInt(hunk[1]!, 10);
+      newCursor = parseInt(hunk[2]!, 10);
+      inHunk = true;
+      continue;
+    }
+    if (!inHunk || line.startsWith("\\")) continue;
+
+    if (line.startsWith("+")) {
+      if (newCursor === newLine) return { newLine };
+      newCursor++;
+    } else if (line.startsWith("-")) {
+      oldCursor++;
+    } else {
+      if (newCursor === newLine) return { oldLine: oldCursor, newLine };
+      oldCursor++;
+      newCursor++;
+    }
+  }
+
+  return undefined;
+}
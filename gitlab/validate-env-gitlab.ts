@@ -5,6 +5,12 @@
  * Uses GitLab CI environment variables instead of GitHub Actions INPUT_ variables.
  */
 
+import { AWS_ID_TOKEN_VARIABLES, findIdToken } from "./aws-oidc";
+import {
+  isGcpWorkloadIdentityConfigured,
+  validateGcpWorkloadIdentity,
+} from "./gcp-oidc";
+
 /**
  * Validates the environment variables required for running Claude Code in GitLab CI
  * based on the selected provider (Anthropic API, AWS Bedrock, or Google Vertex AI)
@@ -31,11 +37,15 @@ export function validateEnvironmentVariablesGitLab() {
       );
     }
   } else if (useBedrock) {
-    const requiredBedrockVars = {
-      AWS_REGION: process.env.AWS_REGION,
-      AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
-      AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY,
-    };
+    // With AWS_ROLE_ARN, the job's ID token is exchanged for temporary credentials
+    const useOidc = !!process.env.AWS_ROLE_ARN;
+    const requiredBedrockVars: Record<string, string | undefined> = useOidc
+      ? { AWS_REGION: process.env.AWS_REGION }
+      : {
+          AWS_REGION: process.env.AWS_REGION,
+          AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
+          AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY,
+        };
 
     Object.entries(requiredBedrockVars).forEach(([key, value]) => {
       if (!value) {
@@ -43,12 +53,10 @@ export function validateEnvironmentVariablesGitLab() {
       }
     });
 
-    // Check for OIDC token in GitLab CI (alternative to static credentials)
-    const oidcToken = process.env.CI_JOB_JWT_V2 || process.env.CI_JOB_JWT;
-    if (!process.env.AWS_ACCESS_KEY_ID && oidcToken) {
-      console.log("Using GitLab OIDC token for AWS authentication");
-      // In a real implementation, you would configure AWS STS assume role with OIDC
-      // For now, just log that OIDC is available
+    if (useOidc && !findIdToken()) {
+      errors.push(
+        `A GitLab ID token (${AWS_ID_TOKEN_VARIABLES.join(" or ")}) is required when AWS_ROLE_ARN is set. Declare it in the job with id_tokens.`,
+      );
     }
   } else if (useVertex) {
     const requiredVertexVars = {
@@ -62,12 +70,14 @@ export function validateEnvironmentVariablesGitLab() {
       }
     });
 
-    // Check for OIDC token in GitLab CI (alternative to service account key)
-    const oidcToken = process.env.CI_JOB_JWT_V2 || process.env.CI_JOB_JWT;
-    if (!process.env.GOOGLE_APPLICATION_CREDENTIALS && oidcToken) {
-      console.log("Using GitLab OIDC token for GCP authentication");
-      // In a real implementation, you would configure GCP Workload Identity with OIDC
-      // For now, just log that OIDC is available
+    // Workload identity federation writes GOOGLE_APPLICATION_CREDENTIALS itself
+    if (isGcpWorkloadIdentityConfigured()) {
+      if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+        errors.push(
+          "GOOGLE_APPLICATION_CREDENTIALS cannot be combined with workload identity federation (GCP_WORKLOAD_IDENTITY_PROVIDER). Set only one of them.",
+        );
+      }
+      errors.push(...validateGcpWorkloadIdentity());
     }
   }
 
@@ -0,0 +1,168 @@
+/**
+ * Cost and token budgets enforced while Claude runs.
+ *
+ * Claude Code only reports the exact cost in its final result event, so the
+ * cost so far is estimated from the token usage of each assistant message and
+ * the list prices of its model. A single message is streamed as several
+ * events that repeat its usage, so usage is counted once per message.
+ */
+
+import { eventMessage, parseStreamEvent } from "./stream-json";
+
+export type BudgetLimits = {
+  maxCostUsd?: number;
+  maxTotalTokens?: number;
+};
+
+export type Usage = {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+};
+
+type ModelPricing = {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+};
+
+// USD per million tokens, matched against the model name
+const MODEL_PRICING: [string, ModelPricing][] = [
+  ["opus", { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 }],
+  ["sonnet", { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 }],
+  ["haiku", { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 }],
+];
+
+// Unknown models are priced like the most expensive one, to stop early rather than late
+const FALLBACK_PRICING = MODEL_PRICING[0]![1];
+
+function positiveNumber(
+  name: string,
+  value: string | undefined,
+  parse: (value: string) => number,
+): number | undefined {
+  if (!value || value.trim() === "") {
+    return undefined;
+  }
+  const parsed = parse(value.trim());
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number, got: ${value}`);
+  }
+  return parsed;
+}
+
+export function parseBudgetLimits(options: {
+  maxCostUsd?: string;
+  maxTotalTokens?: string;
+}): BudgetLimits {
+  return {
+    maxCostUsd: positiveNumber("maxCostUsd", options.maxCostUsd, Number),
+    maxTotalTokens: positiveNumber(
+      "maxTotalTokens",
+      options.maxTotalTokens,
+      (value) => (/^\d+$/.test(value) ? parseInt(value, 10) : NaN),
+    ),
+  };
+}
+
+export function totalTokens(usage: Usage): number {
+  return (
+    (usage.input_tokens ?? 0) +
+    (usage.output_tokens ?? 0) +
+    (usage.cache_creation_input_tokens ?? 0) +
+    (usage.cache_read_input_tokens ?? 0)
+  );
+}
+
+export function estimateCostUsd(model: string | undefined, usage: Usage) {
+  const pricing =
+    MODEL_PRICING.find(([name]) => model?.includes(name))?.[1] ??
+    FALLBACK_PRICING;
+  return (
+    ((usage.input_tokens ?? 0) * pricing.input +
+      (usage.output_tokens ?? 0) * pricing.output +
+      (usage.cache_creation_input_tokens ?? 0) * pricing.cacheWrite +
+      (usage.cache_read_input_tokens ?? 0) * pricing.cacheRead) /
+    1_000_000
+  );
+}
+
+export class BudgetTracker {
+  private partialLine = "";
+  private readonly messages = new Map<
+    string,
+    { model?: string; usage: Usage }
+  >();
+  private exceeded = false;
+
+  constructor(private readonly limits: BudgetLimits) {}
+
+  get enabled(): boolean {
+    return (
+      this.limits.maxCostUsd !== undefined ||
+      this.limits.maxTotalTokens !== undefined
+    );
+  }
+
+  get costUsd(): number {
+    return [...this.messages.values()].reduce(
+      (sum, message) => sum + estimateCostUsd(message.model, message.usage),
+      0,
+    );
+  }
+
+  get tokens(): number {
+    return [...this.messages.values()].reduce(
+      (sum, message) => sum + totalTokens(message.usage),
+      0,
+    );
+  }
+
+  /**
+   * Records the usage in a chunk of raw stdout. Returns why the budget was
+   * exceeded the first time a limit is crossed, and undefined otherwise.
+   */
+  push(chunk: string): string | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const lines = (this.partialLine + chunk).split("\n");
+    this.partialLine = lines.pop()!;
+    for (const line of lines) {
+      this.record(line);
+    }
+
+    if (this.exceeded) {
+      return undefined;
+    }
+    const reason = this.check();
+    this.exceeded = reason !== undefined;
+    return reason;
+  }
+
+  private record(line: string) {
+    const event = parseStreamEvent(line);
+    const message =
+      event?.type === "assistant" ? eventMessage(event) : undefined;
+    if (message?.id && message.usage && typeof message.usage === "object") {
+      this.messages.set(message.id, {
+        model: message.model,
+        usage: message.usage,
+      });
+    }
+  }
+
+  private check(): string | undefined {
+    const { maxCostUsd, maxTotalTokens } = this.limits;
+    if (maxTotalTokens !== undefined && this.tokens > maxTotalTokens) {
+      return `Used ${this.tokens} tokens, more than the budget of ${maxTotalTokens}`;
+    }
+    if (maxCostUsd !== undefined && this.costUsd > maxCostUsd) {
+      return `Estimated cost $${this.costUsd.toFixed(4)} exceeds the budget of $${maxCostUsd}`;
+    }
+    return undefined;
+  }
+}
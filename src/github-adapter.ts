@@ -0,0 +1,43 @@
+import * as core from "@actions/core";
+import { LocalAdapter } from "./platform";
+
+// GitHub Actions: inputs come from action.yml and the summary goes to the job summary
+export class GitHubAdapter extends LocalAdapter {
+  readonly name = "GitHub Actions";
+
+  setOutput(name: string, value: string): void {
+    core.setOutput(name, value);
+  }
+
+  info(message: string): void {
+    core.info(message);
+  }
+
+  warning(message: string): void {
+    core.warning(message);
+  }
+
+  error(message: string): void {
+    core.error(message);
+  }
+
+  tempDir(): string {
+    return this.env.RUNNER_TEMP!;
+  }
+
+  outputDir(): string {
+    return this.env.RUNNER_TEMP!;
+  }
+
+  async writeSummary(markdown: string): Promise<void> {
+    if (this.env.GITHUB_STEP_SUMMARY) {
+      await core.summary.addRaw(markdown).write();
+    }
+  }
+
+  claudeEnv(): Record<string, string> {
+    return this.env.INPUT_ACTION_INPUTS_PRESENT
+      ? { GITHUB_ACTION_INPUTS: this.env.INPUT_ACTION_INPUTS_PRESENT }
+      : {};
+  }
+}
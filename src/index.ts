@@ -3,35 +3,53 @@
 import * as core from "@actions/core";
 import { preparePrompt } from "./prepare-prompt";
 import { runClaude } from "./run-claude";
+import { GitHubAdapter } from "./github-adapter";
 import { setupClaudeCodeSettings } from "./setup-claude-code-settings";
 import { validateEnvironmentVariables } from "./validate-env";
+import { readInputs } from "./inputs";
 
 async function run() {
   try {
+    const inputs = readInputs(process.env, "github");
     validateEnvironmentVariables();
 
     await setupClaudeCodeSettings(
-      process.env.INPUT_SETTINGS,
+      inputs.settings,
       undefined, // homeDir
-      process.env.INPUT_EXPERIMENTAL_SLASH_COMMANDS_DIR,
+      inputs.experimental_slash_commands_dir,
     );
 
     const promptConfig = await preparePrompt({
-      prompt: process.env.INPUT_PROMPT || "",
-      promptFile: process.env.INPUT_PROMPT_FILE || "",
+      prompt: inputs.prompt || "",
+      promptFile: inputs.prompt_file || "",
     });
 
-    await runClaude(promptConfig.path, {
-      allowedTools: process.env.INPUT_ALLOWED_TOOLS,
-      disallowedTools: process.env.INPUT_DISALLOWED_TOOLS,
-      maxTurns: process.env.INPUT_MAX_TURNS,
-      mcpConfig: process.env.INPUT_MCP_CONFIG,
-      systemPrompt: process.env.INPUT_SYSTEM_PROMPT,
-      appendSystemPrompt: process.env.INPUT_APPEND_SYSTEM_PROMPT,
-      claudeEnv: process.env.INPUT_CLAUDE_ENV,
-      fallbackModel: process.env.INPUT_FALLBACK_MODEL,
-      model: process.env.ANTHROPIC_MODEL,
-    });
+    const result = await runClaude(
+      promptConfig.path,
+      {
+        allowedTools: inputs.allowed_tools,
+        disallowedTools: inputs.disallowed_tools,
+        maxTurns: inputs.max_turns,
+        maxCostUsd: inputs.max_cost_usd,
+        maxTotalTokens: inputs.max_total_tokens,
+        jsonSchema: inputs.json_schema,
+        jsonSchemaRetries: inputs.json_schema_retries,
+        maxRetries: inputs.max_retries,
+        mcpConfig: inputs.mcp_config,
+        systemPrompt: inputs.system_prompt,
+        appendSystemPrompt: inputs.append_system_prompt,
+        claudeEnv: inputs.claude_env,
+        fallbackModel: inputs.fallback_model,
+        timeoutMinutes: inputs.timeout_minutes,
+        model: inputs.model,
+        logFormat: inputs.log_format,
+        logColor: inputs.log_color,
+      },
+      new GitHubAdapter(),
+    );
+    if (result.exitCode !== 0) {
+      process.exit(result.exitCode);
+    }
   } catch (error) {
     core.setFailed(`Action failed with error: ${error}`);
     core.setOutput("conclusion", "failure");
@@ -0,0 +1,555 @@
+/**
+ * The inputs of a run, declared once for both platforms.
+ *
+ * On GitHub, action.yml passes each input to the run step as the variable in
+ * `env`; on GitLab, the input is set as the CI/CD variable in `gitlab`, and
+ * cli.ts copies it to the same variable. Both then read and validate their
+ * inputs with readInputs, and test/inputs.test.ts checks that action.yml
+ * declares and passes every input listed here. Inputs of GitLab-only
+ * features such as auto-fix are listed too, so they are validated and can be
+ * set by flags and profiles, but have no action.yml name or `env`.
+ */
+
+export type InputType =
+  | "string"
+  | "boolean"
+  | "positive-integer"
+  | "non-negative-integer"
+  | "positive-number"
+  | "enum";
+
+export type InputDefinition = {
+  // Name in action.yml, or of the flag and profile setting of a GitLab-only input
+  name: string;
+  // Variable the runner reads the input from; undefined for inputs only the action itself uses
+  env?: string;
+  // GitLab CI/CD variable; undefined for GitHub-only inputs
+  gitlab?: string;
+  type: InputType;
+  default?: string;
+  // Default on GitLab when it differs from action.yml's
+  gitlabDefault?: string;
+  values?: readonly string[];
+  // How a config file list (e.g. of tools) or mapping is written as the input's string value
+  separator?: string;
+  format?: "json" | "yaml";
+  // Not an input of action.yml
+  gitlabOnly?: true;
+};
+
+export const INPUTS = [
+  {
+    name: "prompt",
+    env: "INPUT_PROMPT",
+    gitlab: "CLAUDE_PROMPT",
+    type: "string",
+  },
+  {
+    name: "prompt_file",
+    env: "INPUT_PROMPT_FILE",
+    gitlab: "CLAUDE_PROMPT_FILE",
+    type: "string",
+  },
+  {
+    name: "allowed_tools",
+    env: "INPUT_ALLOWED_TOOLS",
+    gitlab: "CLAUDE_ALLOWED_TOOLS",
+    type: "string",
+    separator: ",",
+  },
+  {
+    name: "disallowed_tools",
+    env: "INPUT_DISALLOWED_TOOLS",
+    gitlab: "CLAUDE_DISALLOWED_TOOLS",
+    type: "string",
+    separator: ",",
+  },
+  {
+    name: "max_turns",
+    env: "INPUT_MAX_TURNS",
+    gitlab: "CLAUDE_MAX_TURNS",
+    type: "positive-integer",
+  },
+  {
+    name: "max_cost_usd",
+    env: "INPUT_MAX_COST_USD",
+    gitlab: "CLAUDE_MAX_COST_USD",
+    type: "positive-number",
+  },
+  {
+    name: "max_total_tokens",
+    env: "INPUT_MAX_TOTAL_TOKENS",
+    gitlab: "CLAUDE_MAX_TOTAL_TOKENS",
+    type: "positive-integer",
+  },
+  {
+    name: "max_retries",
+    env: "INPUT_MAX_RETRIES",
+    gitlab: "CLAUDE_MAX_RETRIES",
+    type: "non-negative-integer",
+    default: "2",
+  },
+  {
+    name: "json_schema",
+    env: "INPUT_JSON_SCHEMA",
+    gitlab: "CLAUDE_JSON_SCHEMA",
+    type: "string",
+    format: "json",
+  },
+  {
+    name: "json_schema_retries",
+    env: "INPUT_JSON_SCHEMA_RETRIES",
+    gitlab: "CLAUDE_JSON_SCHEMA_RETRIES",
+    type: "non-negative-integer",
+    default: "2",
+  },
+  {
+    name: "mcp_config",
+    env: "INPUT_MCP_CONFIG",
+    gitlab: "CLAUDE_MCP_CONFIG",
+    type: "string",
+    format: "json",
+  },
+  {
+    name: "settings",
+    env: "INPUT_SETTINGS",
+    gitlab: "CLAUDE_SETTINGS",
+    type: "string",
+    format: "json",
+  },
+  {
+    name: "system_prompt",
+    env: "INPUT_SYSTEM_PROMPT",
+    gitlab: "CLAUDE_SYSTEM_PROMPT",
+    type: "string",
+  },
+  {
+    name: "append_system_prompt",
+    env: "INPUT_APPEND_SYSTEM_PROMPT",
+    gitlab: "CLAUDE_APPEND_SYSTEM_PROMPT",
+    type: "string",
+  },
+  {
+    name: "model",
+    env: "ANTHROPIC_MODEL",
+    gitlab: "CLAUDE_MODEL",
+    type: "string",
+  },
+  // Deprecated alias of model, which action.yml passes as ANTHROPIC_MODEL too
+  { name: "anthropic_model", env: "ANTHROPIC_MODEL", type: "string" },
+  {
+    name: "fallback_model",
+    env: "INPUT_FALLBACK_MODEL",
+    gitlab: "CLAUDE_FALLBACK_MODEL",
+    type: "string",
+  },
+  {
+    name: "claude_env",
+    env: "INPUT_CLAUDE_ENV",
+    gitlab: "CLAUDE_ENV",
+    type: "string",
+    format: "yaml",
+  },
+  {
+    name: "timeout_minutes",
+    env: "INPUT_TIMEOUT_MINUTES",
+    gitlab: "CLAUDE_TIMEOUT_MINUTES",
+    type: "positive-integer",
+    default: "10",
+  },
+  {
+    name: "experimental_slash_commands_dir",
+    env: "INPUT_EXPERIMENTAL_SLASH_COMMANDS_DIR",
+    gitlab: "CLAUDE_EXPERIMENTAL_SLASH_COMMANDS_DIR",
+    type: "string",
+  },
+  // Checked by the platform's log renderer, since GitLab also accepts "sections"
+  {
+    name: "log_format",
+    env: "INPUT_LOG_FORMAT",
+    gitlab: "CLAUDE_LOG_FORMAT",
+    type: "string",
+    default: "json",
+    gitlabDefault: "sections",
+  },
+  {
+    name: "log_color",
+    env: "INPUT_LOG_COLOR",
+    gitlab: "CLAUDE_LOG_COLOR",
+    type: "enum",
+    values: ["auto", "always", "never"],
+    default: "auto",
+  },
+  {
+    name: "redact_patterns",
+    env: "INPUT_REDACT_PATTERNS",
+    gitlab: "CLAUDE_REDACT_PATTERNS",
+    type: "string",
+    separator: "\n",
+  },
+  {
+    name: "anthropic_api_key",
+    env: "ANTHROPIC_API_KEY",
+    gitlab: "ANTHROPIC_API_KEY",
+    type: "string",
+  },
+  {
+    name: "claude_code_oauth_token",
+    env: "CLAUDE_CODE_OAUTH_TOKEN",
+    gitlab: "CLAUDE_CODE_OAUTH_TOKEN",
+    type: "string",
+  },
+  // Claude Code only checks whether these are set, so they are passed as "1" or not at all
+  {
+    name: "use_bedrock",
+    env: "CLAUDE_CODE_USE_BEDROCK",
+    gitlab: "CLAUDE_USE_BEDROCK",
+    type: "boolean",
+    default: "false",
+  },
+  {
+    name: "use_vertex",
+    env: "CLAUDE_CODE_USE_VERTEX",
+    gitlab: "CLAUDE_USE_VERTEX",
+    type: "boolean",
+    default: "false",
+  },
+  { name: "use_node_cache", type: "boolean", default: "false" },
+  // GitLab-only inputs, read from their CI/CD variable on GitLab and ignored on GitHub
+  {
+    name: "mode",
+    gitlab: "CLAUDE_MODE",
+    type: "enum",
+    values: ["run", "triage", "mention"],
+    default: "run",
+    gitlabOnly: true,
+  },
+  {
+    name: "issue_iid",
+    gitlab: "CLAUDE_ISSUE_IID",
+    type: "positive-integer",
+    gitlabOnly: true,
+  },
+  {
+    name: "triage_dry_run",
+    gitlab: "CLAUDE_TRIAGE_DRY_RUN",
+    type: "boolean",
+    default: "false",
+    gitlabOnly: true,
+  },
+  {
+    name: "note_payload_file",
+    gitlab: "CLAUDE_NOTE_PAYLOAD_FILE",
+    type: "string",
+    gitlabOnly: true,
+  },
+  {
+    name: "trigger_phrase",
+    gitlab: "CLAUDE_TRIGGER_PHRASE",
+    type: "string",
+    default: "@claude",
+    gitlabOnly: true,
+  },
+  {
+    name: "mention_min_access_level",
+    gitlab: "CLAUDE_MENTION_MIN_ACCESS_LEVEL",
+    type: "string",
+    default: "developer",
+    gitlabOnly: true,
+  },
+  {
+    name: "mr_context",
+    gitlab: "CLAUDE_MR_CONTEXT",
+    type: "boolean",
+    default: "false",
+    gitlabOnly: true,
+  },
+  // Defaults of these are applied where they are read
+  {
+    name: "mr_context_max_bytes",
+    gitlab: "CLAUDE_MR_CONTEXT_MAX_BYTES",
+    type: "positive-integer",
+    gitlabOnly: true,
+  },
+  {
+    name: "mr_context_max_file_bytes",
+    gitlab: "CLAUDE_MR_CONTEXT_MAX_FILE_BYTES",
+    type: "positive-integer",
+    gitlabOnly: true,
+  },
+  {
+    name: "mr_context_api_fallback",
+    gitlab: "CLAUDE_MR_CONTEXT_API_FALLBACK",
+    type: "boolean",
+    default: "false",
+    gitlabOnly: true,
+  },
+  {
+    name: "prompt_interpolation",
+    gitlab: "CLAUDE_PROMPT_INTERPOLATION",
+    type: "boolean",
+    default: "false",
+    gitlabOnly: true,
+  },
+  {
+    name: "prompt_variables",
+    gitlab: "CLAUDE_PROMPT_VARIABLES",
+    type: "string",
+    separator: ",",
+    gitlabOnly: true,
+  },
+  {
+    name: "post_result_note",
+    gitlab: "CLAUDE_POST_RESULT_NOTE",
+    type: "boolean",
+    default: "false",
+    gitlabOnly: true,
+  },
+  {
+    name: "findings",
+    gitlab: "CLAUDE_FINDINGS",
+    type: "boolean",
+    default: "false",
+    gitlabOnly: true,
+  },
+  {
+    name: "code_quality_report",
+    gitlab: "CLAUDE_CODE_QUALITY_REPORT",
+    type: "string",
+    gitlabOnly: true,
+  },
+  {
+    name: "review_discussions",
+    gitlab: "CLAUDE_REVIEW_DISCUSSIONS",
+    type: "boolean",
+    default: "false",
+    gitlabOnly: true,
+  },
+  {
+    name: "gitlab_mcp",
+    gitlab: "CLAUDE_GITLAB_MCP",
+    type: "boolean",
+    default: "true",
+    gitlabOnly: true,
+  },
+  {
+    name: "auto_fix",
+    gitlab: "CLAUDE_AUTO_FIX",
+    type: "boolean",
+    default: "false",
+    gitlabOnly: true,
+  },
+  {
+    name: "auto_fix_push_to_source",
+    gitlab: "CLAUDE_AUTO_FIX_PUSH_TO_SOURCE",
+    type: "boolean",
+    default: "false",
+    gitlabOnly: true,
+  },
+  {
+    name: "auto_fix_branch",
+    gitlab: "CLAUDE_AUTO_FIX_BRANCH",
+    type: "string",
+    gitlabOnly: true,
+  },
+  {
+    name: "auto_fix_author_name",
+    gitlab: "CLAUDE_AUTO_FIX_AUTHOR_NAME",
+    type: "string",
+    default: "Claude Code",
+    gitlabOnly: true,
+  },
+  {
+    name: "auto_fix_author_email",
+    gitlab: "CLAUDE_AUTO_FIX_AUTHOR_EMAIL",
+    type: "string",
+    default: "noreply@anthropic.com",
+    gitlabOnly: true,
+  },
+  {
+    name: "auto_fix_commit_message",
+    gitlab: "CLAUDE_AUTO_FIX_COMMIT_MESSAGE",
+    type: "string",
+    default: "Apply changes from Claude Code",
+    gitlabOnly: true,
+  },
+  {
+    name: "auto_fix_mr_title",
+    gitlab: "CLAUDE_AUTO_FIX_MR_TITLE",
+    type: "string",
+    default: "Changes from Claude Code",
+    gitlabOnly: true,
+  },
+  {
+    name: "session_persist",
+    gitlab: "CLAUDE_SESSION_PERSIST",
+    type: "boolean",
+    default: "false",
+    gitlabOnly: true,
+  },
+  {
+    name: "session_key",
+    gitlab: "CLAUDE_SESSION_KEY",
+    type: "string",
+    gitlabOnly: true,
+  },
+  {
+    name: "session_dir",
+    gitlab: "CLAUDE_SESSION_DIR",
+    type: "string",
+    gitlabOnly: true,
+  },
+  {
+    name: "session_max_age_hours",
+    gitlab: "CLAUDE_SESSION_MAX_AGE_HOURS",
+    type: "positive-number",
+    gitlabOnly: true,
+  },
+  {
+    name: "session_fresh",
+    gitlab: "CLAUDE_SESSION_FRESH",
+    type: "boolean",
+    default: "false",
+    gitlabOnly: true,
+  },
+  {
+    name: "dotenv_report",
+    gitlab: "CLAUDE_DOTENV_REPORT",
+    type: "string",
+    gitlabOnly: true,
+  },
+  {
+    name: "summary_file",
+    gitlab: "CLAUDE_SUMMARY_FILE",
+    type: "string",
+    gitlabOnly: true,
+  },
+] as const satisfies readonly InputDefinition[];
+
+export type InputName = (typeof INPUTS)[number]["name"];
+
+// Validated values, with defaults applied; booleans are "true" or "false"
+export type Inputs = Partial<Record<InputName, string>>;
+
+export type InputPlatform = "github" | "gitlab";
+
+export function findInput(name: string): InputDefinition | undefined {
+  return (INPUTS as readonly InputDefinition[]).find(
+    (input) => input.name === name,
+  );
+}
+
+const TRUE_VALUES = ["true", "1"];
+const FALSE_VALUES = ["false", "0", ""];
+
+/**
+ * Checks a raw value against the input's type, falling back to
+ * `defaultValue` when it is unset or blank. `label` names the input the way
+ * the user set it, e.g. max_turns or CLAUDE_MAX_TURNS.
+ */
+export function parseInput(
+  input: InputDefinition,
+  raw: string | undefined,
+  label: string,
+  defaultValue = input.default,
+): string | undefined {
+  const value = raw?.trim() ? raw : defaultValue;
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  switch (input.type) {
+    case "boolean":
+      if (TRUE_VALUES.includes(trimmed.toLowerCase())) return "true";
+      if (FALSE_VALUES.includes(trimmed.toLowerCase())) return "false";
+      throw new Error(`${label} must be "true" or "false", got: ${value}`);
+    case "positive-integer":
+    case "non-negative-integer": {
+      const min = input.type === "positive-integer" ? 1 : 0;
+      if (!/^\d+$/.test(trimmed) || parseInt(trimmed, 10) < min) {
+        throw new Error(
+          `${label} must be a ${min === 1 ? "positive" : "non-negative"} integer, got: ${value}`,
+        );
+      }
+      return trimmed;
+    }
+    case "positive-number":
+      if (trimmed === "" || isNaN(Number(trimmed)) || Number(trimmed) <= 0) {
+        throw new Error(`${label} must be a positive number, got: ${value}`);
+      }
+      return trimmed;
+    case "enum":
+      if (!input.values?.includes(trimmed)) {
+        throw new Error(
+          `${label} must be one of ${input.values?.join(", ")}, got: ${value}`,
+        );
+      }
+      return trimmed;
+    case "string":
+      return value;
+  }
+}
+
+/**
+ * Reads and validates every input. On GitHub, inputs are read from the
+ * variables action.yml passes them in; on GitLab, from the CI/CD variables.
+ */
+export function readInputs(
+  env: NodeJS.ProcessEnv,
+  platform: InputPlatform,
+): Inputs {
+  const inputs: Inputs = {};
+  for (const input of INPUTS as readonly InputDefinition[]) {
+    const source = platform === "github" ? input.env : input.gitlab;
+    if (!source) {
+      continue;
+    }
+    const label = platform === "github" ? input.name : source;
+    const defaultValue =
+      platform === "gitlab" && input.gitlabDefault !== undefined
+        ? input.gitlabDefault
+        : input.default;
+    const value = parseInput(input, env[source], label, defaultValue);
+    if (value !== undefined) {
+      inputs[input.name as InputName] = value;
+    }
+  }
+  return inputs;
+}
+
+/**
+ * The variables the runner reads inputs from, as action.yml sets them, so
+ * code shared with the action finds GitLab's inputs in the same place.
+ */
+export function inputEnv(inputs: Inputs): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const input of INPUTS as readonly InputDefinition[]) {
+    const value = inputs[input.name as InputName];
+    if (!input.env || value === undefined) {
+      continue;
+    }
+    if (input.type !== "boolean") {
+      env[input.env] = value;
+    } else if (value === "true") {
+      env[input.env] = "1";
+    }
+  }
+  return env;
+}
+
+/**
+ * The CI/CD variables of GitLab-only inputs set to their validated values, so
+ * GitLab modules that read the variables see "true" for "1" or "TRUE" and get
+ * the defaults.
+ */
+export function gitlabOnlyEnv(inputs: Inputs): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const input of INPUTS as readonly InputDefinition[]) {
+    const value = inputs[input.name as InputName];
+    if (input.gitlabOnly && input.gitlab && value !== undefined) {
+      env[input.gitlab] = value;
+    }
+  }
+  return env;
+}
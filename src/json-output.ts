@@ -0,0 +1,183 @@
+/**
+ * Structured JSON output validated against a user-supplied JSON Schema.
+ *
+ * Claude is asked to end its final response with the JSON object in a fenced
+ * block. When the object is missing or does not match the schema, the session
+ * is resumed with the validation errors so Claude can correct it, up to a
+ * configurable number of times.
+ */
+
+import Ajv, { type ValidateFunction } from "ajv";
+import { readFile } from "fs/promises";
+import { findResultEvent, parseStreamJson } from "./stream-json";
+
+export type JsonOutputCheck =
+  | { valid: true; value: unknown }
+  | { valid: false; errors: string[] };
+
+export type ClaudeAttempt = {
+  exitCode: number;
+  output: string;
+};
+
+// Written to the execution output before every correction, so the reply is
+// not mistaken for the result of the run
+export type JsonCorrectionRecord = {
+  type: "json_correction";
+  attempt: number;
+  errors: string[];
+};
+
+export const DEFAULT_JSON_SCHEMA_RETRIES = 2;
+
+const JSON_OUTPUT_BLOCK_PATTERN = /```claude-json[^\n]*\n([\s\S]*?)```/g;
+
+/**
+ * Loads a schema given either as a JSON string or as the path of a file
+ * containing one, like the settings input.
+ */
+export async function loadJsonSchema(
+  input: string,
+): Promise<Record<string, unknown>> {
+  let text = input;
+  if (!input.trim().startsWith("{")) {
+    try {
+      text = await readFile(input.trim(), "utf-8");
+    } catch (error) {
+      throw new Error(`Failed to read JSON schema file: ${error}`);
+    }
+  }
+
+  try {
+    const schema = JSON.parse(text);
+    if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+      throw new Error("the schema must be a JSON object");
+    }
+    return schema;
+  } catch (error) {
+    throw new Error(`Failed to parse JSON schema: ${error}`);
+  }
+}
+
+export function compileJsonSchema(
+  schema: Record<string, unknown>,
+): ValidateFunction {
+  try {
+    return new Ajv({ allErrors: true, strict: false }).compile(schema);
+  } catch (error) {
+    throw new Error(`Invalid JSON schema: ${error}`);
+  }
+}
+
+export function parseJsonSchemaRetries(value?: string): number {
+  if (!value || value.trim() === "") {
+    return DEFAULT_JSON_SCHEMA_RETRIES;
+  }
+  const retries = Number(value.trim());
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new Error(
+      `jsonSchemaRetries must be a non-negative integer, got: ${value}`,
+    );
+  }
+  return retries;
+}
+
+export function jsonOutputInstructions(
+  schema: Record<string, unknown>,
+): string {
+  return `When you have finished, end your final response with a fenced code block tagged \`claude-json\` that contains a single JSON value matching this JSON Schema:
+\`\`\`json
+${JSON.stringify(schema, null, 2)}
+\`\`\`
+The block is read by a program, so it must contain only valid JSON: no comments or trailing commas.`;
+}
+
+export function buildCorrectionPrompt(errors: string[]): string {
+  return `The JSON at the end of your last response is not valid:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Reply with the corrected JSON in a fenced code block tagged \`claude-json\`, matching the JSON Schema you were given.`;
+}
+
+// The last claude-json block wins, since Claude may show drafts before it
+export function extractJsonOutput(text: string): unknown {
+  const blocks = [...text.matchAll(JSON_OUTPUT_BLOCK_PATTERN)];
+  const json = blocks.length > 0 ? blocks[blocks.length - 1]![1]! : text;
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new Error(
+      blocks.length > 0
+        ? `The claude-json block is not valid JSON: ${error}`
+        : "The response does not end with a claude-json code block",
+    );
+  }
+}
+
+/**
+ * Checks the JSON in the final result event of a run's stream-json output
+ * against the schema.
+ */
+export function checkJsonOutput(
+  output: string,
+  validate: ValidateFunction,
+): JsonOutputCheck {
+  const result = findResultEvent(parseStreamJson(output))?.result;
+  if (!result) {
+    return { valid: false, errors: ["Claude did not produce a result"] };
+  }
+
+  let value: unknown;
+  try {
+    value = extractJsonOutput(result);
+  } catch (error) {
+    return { valid: false, errors: [(error as Error).message] };
+  }
+
+  if (!validate(value)) {
+    return {
+      valid: false,
+      errors: (validate.errors ?? []).map(
+        (error) => `${error.instancePath || "/"} ${error.message}`,
+      ),
+    };
+  }
+  return { valid: true, value };
+}
+
+/**
+ * Validates the JSON output of a run and, while it is invalid, resumes the
+ * session with the errors through `correct`. Returns the output of all
+ * attempts, with a correction record before each reply, together with the
+ * exit code and check of the last one.
+ */
+export async function ensureValidJsonOutput(
+  first: ClaudeAttempt,
+  validate: ValidateFunction,
+  retries: number,
+  correct: (prompt: string, sessionId: string) => Promise<ClaudeAttempt>,
+): Promise<ClaudeAttempt & { check: JsonOutputCheck }> {
+  let attempt = first;
+  let output = first.output;
+  let check = checkJsonOutput(attempt.output, validate);
+
+  for (let i = 0; i < retries && !check.valid && attempt.exitCode === 0; i++) {
+    const sessionId = findResultEvent(
+      parseStreamJson(attempt.output),
+    )?.session_id;
+    if (!sessionId) {
+      break;
+    }
+    const record: JsonCorrectionRecord = {
+      type: "json_correction",
+      attempt: i + 1,
+      errors: check.errors,
+    };
+    output += `${JSON.stringify(record)}\n`;
+    attempt = await correct(buildCorrectionPrompt(check.errors), sessionId);
+    output += attempt.output;
+    check = checkJsonOutput(attempt.output, validate);
+  }
+
+  return { exitCode: attempt.exitCode, output, check };
+}
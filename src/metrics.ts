@@ -0,0 +1,144 @@
+/**
+ * Execution metrics taken from the `result` events of a run, reported as
+ * outputs and as a Markdown summary so spend can be tracked per run.
+ */
+
+import {
+  formatDuration,
+  type ResultEvent,
+  type StreamEvent,
+} from "./stream-json";
+
+export type ExecutionMetrics = {
+  costUsd?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+  numTurns?: number;
+  durationMs?: number;
+  sessionId?: string;
+};
+
+function numberOrUndefined(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+export function extractMetrics(result: ResultEvent): ExecutionMetrics {
+  return {
+    costUsd: numberOrUndefined(result.total_cost_usd),
+    inputTokens: numberOrUndefined(result.usage?.input_tokens),
+    outputTokens: numberOrUndefined(result.usage?.output_tokens),
+    cacheCreationInputTokens: numberOrUndefined(
+      result.usage?.cache_creation_input_tokens,
+    ),
+    cacheReadInputTokens: numberOrUndefined(
+      result.usage?.cache_read_input_tokens,
+    ),
+    numTurns: numberOrUndefined(result.num_turns),
+    durationMs: numberOrUndefined(result.duration_ms),
+    sessionId: result.session_id || undefined,
+  };
+}
+
+function sum(values: (number | undefined)[]): number | undefined {
+  const known = values.filter((value) => value !== undefined);
+  return known.length > 0
+    ? known.reduce((total, value) => total + value, 0)
+    : undefined;
+}
+
+/**
+ * Metrics of the whole run. Every attempt (a retry after a transient error,
+ * or a correction of invalid JSON output) ends with its own result event, so
+ * cost, tokens, turns and duration are summed over all of them; the session
+ * is the last one reported. Returns undefined when there is no result event.
+ */
+export function collectMetrics(
+  events: StreamEvent[],
+): ExecutionMetrics | undefined {
+  const attempts = events
+    .filter((event): event is ResultEvent => event.type === "result")
+    .map(extractMetrics);
+  if (attempts.length === 0) {
+    return undefined;
+  }
+
+  const total = (metric: keyof Omit<ExecutionMetrics, "sessionId">) =>
+    sum(attempts.map((metrics) => metrics[metric]));
+  return {
+    costUsd: total("costUsd"),
+    inputTokens: total("inputTokens"),
+    outputTokens: total("outputTokens"),
+    cacheCreationInputTokens: total("cacheCreationInputTokens"),
+    cacheReadInputTokens: total("cacheReadInputTokens"),
+    numTurns: total("numTurns"),
+    durationMs: total("durationMs"),
+    sessionId: attempts.findLast((metrics) => metrics.sessionId)?.sessionId,
+  };
+}
+
+/**
+ * Output names and values for the metrics that were reported. Missing
+ * metrics are left out rather than reported as zero.
+ */
+export function metricsOutputs(
+  metrics: ExecutionMetrics,
+): Record<string, string> {
+  const outputs: Record<string, unknown> = {
+    cost_usd: metrics.costUsd,
+    input_tokens: metrics.inputTokens,
+    output_tokens: metrics.outputTokens,
+    cache_creation_input_tokens: metrics.cacheCreationInputTokens,
+    cache_read_input_tokens: metrics.cacheReadInputTokens,
+    num_turns: metrics.numTurns,
+    duration_ms: metrics.durationMs,
+    session_id: metrics.sessionId,
+  };
+  return Object.fromEntries(
+    Object.entries(outputs)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => [name, String(value)]),
+  );
+}
+
+export function formatMetricsSummary(
+  metrics: ExecutionMetrics,
+  conclusion: string,
+): string {
+  const tokens = (value?: number) => value?.toLocaleString("en-US");
+  const rows: [string, string | undefined][] = [
+    ["Conclusion", conclusion],
+    [
+      "Cost",
+      metrics.costUsd !== undefined
+        ? `$${metrics.costUsd.toFixed(4)}`
+        : undefined,
+    ],
+    ["Turns", metrics.numTurns?.toString()],
+    [
+      "Duration",
+      metrics.durationMs !== undefined
+        ? formatDuration(metrics.durationMs)
+        : undefined,
+    ],
+    ["Input tokens", tokens(metrics.inputTokens)],
+    ["Output tokens", tokens(metrics.outputTokens)],
+    ["Cache creation tokens", tokens(metrics.cacheCreationInputTokens)],
+    ["Cache read tokens", tokens(metrics.cacheReadInputTokens)],
+    ["Session ID", metrics.sessionId && `\`${metrics.sessionId}\``],
+  ];
+
+  return [
+    "### Claude Code execution summary",
+    "",
+    "| Metric | Value |",
+    "| --- | --- |",
+    ...rows
+      .filter(([, value]) => value !== undefined)
+      .map(([label, value]) => `| ${label} | ${value} |`),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,106 @@
+/**
+ * The CI platform Claude runs on.
+ *
+ * The runner in run-claude.ts is the same everywhere; it only reaches the
+ * platform through a PlatformAdapter, which decides where inputs come from,
+ * how outputs, log messages and the run summary are published and where
+ * files are kept. Supporting another CI system means implementing this
+ * interface, as src/github-adapter.ts and gitlab/run-claude-gitlab.ts do.
+ */
+
+import { writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import {
+  createStreamRenderer,
+  parseLogFormat,
+  resolveColor,
+  type StreamRenderer,
+} from "./transcript";
+
+export type LogOptions = {
+  logFormat?: string;
+  logColor?: string;
+};
+
+export interface PlatformAdapter {
+  readonly name: string;
+
+  // Reads an input by its action.yml name, e.g. "timeout_minutes"
+  getInput(name: string): string | undefined;
+  setOutput(name: string, value: string): void;
+
+  info(message: string): void;
+  warning(message: string): void;
+  error(message: string): void;
+
+  // Scratch files such as the prompt pipe, removed with the job
+  tempDir(): string;
+  // Files users keep after the run, such as the execution file
+  outputDir(): string;
+
+  // Publishes the Markdown summary of a run
+  writeSummary(markdown: string): Promise<void>;
+  // Renders Claude's stream-json output for the job log
+  createLogRenderer(options: LogOptions): StreamRenderer;
+  // Variables passed to Claude Code to tell it where it runs
+  claudeEnv(): Record<string, string>;
+}
+
+/**
+ * Runs outside of any CI system, e.g. on a developer machine or in a CI
+ * system without an adapter of its own. Inputs are read from INPUT_*
+ * variables, outputs are only logged and the summary goes to
+ * CLAUDE_SUMMARY_FILE when it is set.
+ */
+export class LocalAdapter implements PlatformAdapter {
+  readonly name: string = "local";
+
+  constructor(protected readonly env: NodeJS.ProcessEnv = process.env) {}
+
+  getInput(name: string): string | undefined {
+    return this.env[`INPUT_${name.toUpperCase()}`];
+  }
+
+  setOutput(name: string, value: string): void {
+    console.log(`Output ${name}: ${value}`);
+  }
+
+  info(message: string): void {
+    console.log(message);
+  }
+
+  warning(message: string): void {
+    console.warn(`Warning: ${message}`);
+  }
+
+  error(message: string): void {
+    console.error(`Error: ${message}`);
+  }
+
+  tempDir(): string {
+    return this.env.RUNNER_TEMP || tmpdir();
+  }
+
+  outputDir(): string {
+    return process.cwd();
+  }
+
+  async writeSummary(markdown: string): Promise<void> {
+    if (this.env.CLAUDE_SUMMARY_FILE) {
+      await writeFile(this.env.CLAUDE_SUMMARY_FILE, markdown);
+    } else {
+      console.log(markdown);
+    }
+  }
+
+  createLogRenderer(options: LogOptions): StreamRenderer {
+    return createStreamRenderer(
+      parseLogFormat(options.logFormat),
+      resolveColor(options.logColor, process.stdout),
+    );
+  }
+
+  claudeEnv(): Record<string, string> {
+    return {};
+  }
+}
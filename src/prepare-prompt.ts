@@ -1,9 +1,16 @@
 import { existsSync, statSync } from "fs";
-import { mkdir, writeFile } from "fs/promises";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { interpolatePrompt } from "./prompt-variables";
+
+const INLINE_PROMPT_PATH = "/tmp/claude-action/prompt.txt";
 
 export type PreparePromptInput = {
   prompt: string;
   promptFile: string;
+  // Optional context block prepended to the prompt (e.g. merge request details)
+  context?: string;
+  // When set, `{{ NAME }}` placeholders in the prompt are expanded from these
+  variables?: Record<string, string>;
 };
 
 export type PreparePromptConfig = {
@@ -52,10 +59,9 @@ async function validateAndPreparePrompt(
     throw new Error("Prompt is empty. Please provide a non-empty prompt.");
   }
 
-  const inlinePath = "/tmp/claude-action/prompt.txt";
   return {
     type: "inline",
-    path: inlinePath,
+    path: INLINE_PROMPT_PATH,
   };
 }
 
@@ -74,6 +80,24 @@ export async function preparePrompt(
 ): Promise<PreparePromptConfig> {
   const config = await validateAndPreparePrompt(input);
 
+  if (input.context || input.variables) {
+    let prompt =
+      config.type === "file"
+        ? await readFile(config.path, "utf-8")
+        : input.prompt;
+
+    // Interpolate before prepending context, which may contain arbitrary braces
+    if (input.variables) {
+      prompt = interpolatePrompt(prompt, input.variables);
+    }
+    if (input.context) {
+      prompt = `${input.context}\n\n${prompt}`;
+    }
+
+    await createTemporaryPromptFile(prompt, INLINE_PROMPT_PATH);
+    return { ...config, path: INLINE_PROMPT_PATH };
+  }
+
   if (config.type === "inline") {
     await createTemporaryPromptFile(input.prompt, config.path);
   }
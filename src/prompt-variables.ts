@@ -0,0 +1,131 @@
+/**
+ * Explicit `{{ NAME }}` placeholder interpolation for prompts.
+ *
+ * Only an allowlist of CI metadata variables plus variables the user declares
+ * can be expanded. Anything that looks like a credential is rejected, even
+ * when declared, so a prompt (which ends up in logs and artifacts) can never
+ * pull a secret out of the environment.
+ */
+
+export const ALLOWED_PROMPT_VARIABLES = [
+  // GitLab CI
+  "CI_COMMIT_BRANCH",
+  "CI_COMMIT_REF_NAME",
+  "CI_COMMIT_SHA",
+  "CI_COMMIT_SHORT_SHA",
+  "CI_COMMIT_TAG",
+  "CI_COMMIT_TITLE",
+  "CI_DEFAULT_BRANCH",
+  "CI_JOB_ID",
+  "CI_JOB_NAME",
+  "CI_JOB_URL",
+  "CI_MERGE_REQUEST_DIFF_BASE_SHA",
+  "CI_MERGE_REQUEST_IID",
+  "CI_MERGE_REQUEST_PROJECT_URL",
+  "CI_MERGE_REQUEST_SOURCE_BRANCH_NAME",
+  "CI_MERGE_REQUEST_TARGET_BRANCH_NAME",
+  "CI_MERGE_REQUEST_TITLE",
+  "CI_PIPELINE_ID",
+  "CI_PIPELINE_SOURCE",
+  "CI_PIPELINE_URL",
+  "CI_PROJECT_ID",
+  "CI_PROJECT_NAME",
+  "CI_PROJECT_PATH",
+  "CI_PROJECT_URL",
+  "GITLAB_USER_LOGIN",
+  "GITLAB_USER_NAME",
+  // GitHub Actions
+  "GITHUB_ACTOR",
+  "GITHUB_BASE_REF",
+  "GITHUB_EVENT_NAME",
+  "GITHUB_HEAD_REF",
+  "GITHUB_REF",
+  "GITHUB_REF_NAME",
+  "GITHUB_REPOSITORY",
+  "GITHUB_RUN_ID",
+  "GITHUB_SERVER_URL",
+  "GITHUB_SHA",
+];
+
+// Variables that may carry secrets without their name saying so
+const SECRET_VARIABLES = new Set(["CLAUDE_ENV", "CLAUDE_SETTINGS"]);
+const SECRET_NAME_PATTERN =
+  /TOKEN|SECRET|PASSWORD|PASSWD|PRIVATE|KEY|CREDENTIAL|JWT|AUTH|COOKIE/i;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+export function isSecretVariableName(name: string): boolean {
+  return SECRET_VARIABLES.has(name) || SECRET_NAME_PATTERN.test(name);
+}
+
+/**
+ * Builds the variables available to a prompt from the allowlist and the
+ * user-declared names, taking their values from the environment. Unset
+ * variables expand to an empty string.
+ */
+export function resolvePromptVariables(
+  env: NodeJS.ProcessEnv,
+  declaredNames: string[] = [],
+): Record<string, string> {
+  const errors: string[] = [];
+
+  for (const name of declaredNames) {
+    if (!VARIABLE_NAME_PATTERN.test(name)) {
+      errors.push(`'${name}' is not a valid variable name.`);
+    } else if (isSecretVariableName(name)) {
+      errors.push(
+        `'${name}' looks like a secret and cannot be used in a prompt.`,
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid prompt variables:\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+    );
+  }
+
+  const variables: Record<string, string> = {};
+  for (const name of [...ALLOWED_PROMPT_VARIABLES, ...declaredNames]) {
+    variables[name] = env[name] ?? "";
+  }
+  return variables;
+}
+
+export function parseDeclaredVariables(value?: string): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(/[,\n]/)
+    .map((name) => name.trim())
+    .filter((name) => name !== "");
+}
+
+/**
+ * Replaces every `{{ NAME }}` placeholder in a single pass, so expanded values
+ * are never interpolated again. Throws listing every unknown placeholder.
+ */
+export function interpolatePrompt(
+  template: string,
+  variables: Record<string, string>,
+): string {
+  const unknown = new Set<string>();
+
+  const result = template.replace(PLACEHOLDER_PATTERN, (match, name) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+      unknown.add(name);
+      return match;
+    }
+    return variables[name]!;
+  });
+
+  if (unknown.size > 0) {
+    const names = [...unknown].map((name) => `'${name}'`).join(", ");
+    throw new Error(
+      `Prompt contains unknown placeholders: ${names}. Only allowlisted CI variables and declared prompt variables can be used.`,
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,144 @@
+/**
+ * Masks secrets in everything the runner logs or persists.
+ *
+ * Claude's output, including whatever its Bash calls print, ends up in the
+ * job log and in the execution file, which anyone who can download artifacts
+ * can read. The redactor knows the values of the credential variables, the
+ * `claude_env` values and any user-declared patterns, and replaces them with
+ * a mask before text leaves the process.
+ */
+
+import { parseCustomEnvVars } from "./custom-env";
+
+export const REDACTED = "***";
+
+// Variables that hold credentials for Claude, the cloud providers or CI
+export const SECRET_VARIABLES = [
+  "ANTHROPIC_API_KEY",
+  "ANTHROPIC_AUTH_TOKEN",
+  "CLAUDE_CODE_OAUTH_TOKEN",
+  "AWS_ACCESS_KEY_ID",
+  "AWS_SECRET_ACCESS_KEY",
+  "AWS_SESSION_TOKEN",
+  "AWS_BEARER_TOKEN_BEDROCK",
+  "AWS_ID_TOKEN",
+  "GCP_ID_TOKEN",
+  "GITHUB_TOKEN",
+  "ACTIONS_ID_TOKEN_REQUEST_TOKEN",
+  "ACTIONS_RUNTIME_TOKEN",
+  "GITLAB_TOKEN",
+  "CI_JOB_TOKEN",
+  "CI_JOB_JWT",
+  "CI_JOB_JWT_V2",
+  "CI_REGISTRY_PASSWORD",
+  "CI_DEPENDENCY_PROXY_PASSWORD",
+];
+
+// Variables in `claude_env` format whose values are all treated as secrets
+const CUSTOM_ENV_VARIABLES = ["INPUT_CLAUDE_ENV", "CLAUDE_ENV"];
+
+/**
+ * Shorter values are not masked: they are unlikely to be credentials and
+ * would otherwise mask ordinary words such as "true" all over the log.
+ */
+export const MIN_SECRET_LENGTH = 8;
+
+export class Redactor {
+  private readonly secretPattern?: RegExp;
+
+  constructor(
+    secrets: string[],
+    private readonly patterns: RegExp[] = [],
+  ) {
+    const variants = new Set<string>();
+    for (const secret of secrets) {
+      // Multiline secrets, e.g. private keys, are masked line by line
+      for (const line of secret.split(/\r?\n/)) {
+        const value = line.trim();
+        if (value.length < MIN_SECRET_LENGTH) continue;
+        variants.add(value);
+        // How the value appears inside the JSON events of the stream
+        variants.add(JSON.stringify(value).slice(1, -1));
+      }
+    }
+
+    if (variants.size > 0) {
+      // Longest first, so a secret containing another is masked as a whole
+      const alternatives = [...variants]
+        .sort((a, b) => b.length - a.length)
+        .map((value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+      this.secretPattern = new RegExp(alternatives.join("|"), "g");
+    }
+  }
+
+  redact(text: string): string {
+    let result = this.secretPattern
+      ? text.replace(this.secretPattern, REDACTED)
+      : text;
+    for (const pattern of this.patterns) {
+      result = result.replace(pattern, REDACTED);
+    }
+    return result;
+  }
+
+  /**
+   * Creates a redactor for a stream of chunks. Output is released line by
+   * line, so a secret split across two chunks is still masked.
+   */
+  stream(): StreamRedactor {
+    return new StreamRedactor(this);
+  }
+}
+
+export class StreamRedactor {
+  private partialLine = "";
+
+  constructor(private readonly redactor: Redactor) {}
+
+  push(chunk: string): string {
+    const text = this.partialLine + chunk;
+    const end = text.lastIndexOf("\n") + 1;
+    this.partialLine = text.slice(end);
+    return this.redactor.redact(text.slice(0, end));
+  }
+
+  flush(): string {
+    const rest = this.redactor.redact(this.partialLine);
+    this.partialLine = "";
+    return rest;
+  }
+}
+
+// One regular expression per line; blank lines are ignored
+export function parseRedactPatterns(input?: string): RegExp[] {
+  return (input ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((source) => {
+      try {
+        return new RegExp(source, "g");
+      } catch (e) {
+        throw new Error(`Invalid redact pattern ${source}: ${e}`);
+      }
+    });
+}
+
+export function collectSecrets(
+  env: Record<string, string | undefined>,
+): string[] {
+  const secrets = SECRET_VARIABLES.map((name) => env[name] ?? "");
+  for (const name of CUSTOM_ENV_VARIABLES) {
+    secrets.push(...Object.values(parseCustomEnvVars(env[name])));
+  }
+  return secrets.filter(Boolean);
+}
+
+export function createRedactor(
+  env: Record<string, string | undefined> = process.env,
+): Redactor {
+  return new Redactor(
+    collectSecrets(env),
+    parseRedactPatterns(env.INPUT_REDACT_PATTERNS),
+  );
+}
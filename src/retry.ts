@@ -0,0 +1,166 @@
+/**
+ * Retries of runs that failed because of a transient API or network error.
+ *
+ * Claude Code reports API errors in the text of its result event (e.g.
+ * `API Error: 529 {"type":"error","error":{"type":"overloaded_error",...}}`)
+ * and network errors on stderr, so a failed run is classified by matching
+ * both against known transient errors. Anything else, such as a failing tool
+ * or reaching max_turns, is a permanent failure and is not retried.
+ */
+
+import { findResultEvent, parseStreamJson } from "./stream-json";
+
+export type FailureClassification = {
+  transient: boolean;
+  reason: string;
+};
+
+export type RetryableRun = {
+  exitCode: number;
+  output: string;
+  stderr: string;
+  budgetExceeded: boolean;
+};
+
+// Written to the execution output after every failed attempt that is retried
+export type RetryRecord = {
+  type: "retry";
+  attempt: number;
+  exit_code: number;
+  reason: string;
+  delay_ms: number;
+  resume_session_id?: string;
+};
+
+export const DEFAULT_MAX_RETRIES = 2;
+export const RETRY_BASE_DELAY_MS = 5000;
+export const RETRY_MAX_DELAY_MS = 60000;
+
+// Exit code the runners use when they stop Claude for running too long
+const TIMEOUT_EXIT_CODE = 124;
+const MAX_REASON_LENGTH = 200;
+
+const TRANSIENT_ERROR_PATTERNS = [
+  /API Error: (?:429|5\d\d)\b/,
+  /overloaded_error|rate_limit_error|"type":\s*"api_error"/,
+  /\b(?:ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE)\b/,
+  /socket hang up|fetch failed|Connection error|Request timed out/i,
+];
+
+export const RESUME_PROMPT =
+  "Your previous attempt was interrupted by a temporary API error. Continue the task from where you left off.";
+
+export function parseMaxRetries(value?: string): number {
+  if (!value || value.trim() === "") {
+    return DEFAULT_MAX_RETRIES;
+  }
+  const retries = Number(value.trim());
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new Error(`maxRetries must be a non-negative integer, got: ${value}`);
+  }
+  return retries;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_REASON_LENGTH
+    ? `${text.slice(0, MAX_REASON_LENGTH - 3)}...`
+    : text;
+}
+
+export function classifyFailure(run: RetryableRun): FailureClassification {
+  if (run.budgetExceeded) {
+    return { transient: false, reason: "The budget was exceeded" };
+  }
+  if (run.exitCode === TIMEOUT_EXIT_CODE) {
+    return { transient: false, reason: "Claude timed out" };
+  }
+
+  const result = findResultEvent(parseStreamJson(run.output));
+  if (result?.subtype === "error_max_turns") {
+    return {
+      transient: false,
+      reason: "Claude reached the maximum number of turns",
+    };
+  }
+
+  const lines = [result?.result ?? "", run.stderr]
+    .join("\n")
+    .split("\n")
+    .map((line) => line.trim());
+  const transientLine = lines.find((line) =>
+    TRANSIENT_ERROR_PATTERNS.some((pattern) => pattern.test(line)),
+  );
+  if (transientLine) {
+    return { transient: true, reason: truncate(transientLine) };
+  }
+
+  const lastLine = lines.filter(Boolean).pop();
+  return {
+    transient: false,
+    reason: truncate(lastLine ?? `Claude exited with code ${run.exitCode}`),
+  };
+}
+
+/**
+ * Exponential backoff with jitter: the delay doubles with every retry, up to
+ * RETRY_MAX_DELAY_MS, and a random half of it is added so that parallel jobs
+ * hitting the same overloaded API do not retry in lockstep.
+ */
+export function retryDelayMs(retry: number, random = Math.random): number {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** retry);
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+// The session of a failed attempt, from its first event that names one
+function findSessionId(output: string): string | undefined {
+  const event = parseStreamJson(output).find(
+    (event) => typeof event.session_id === "string" && event.session_id,
+  );
+  return event?.session_id as string | undefined;
+}
+
+/**
+ * Runs Claude and retries transient failures up to `maxRetries` times,
+ * resuming the failed attempt's session when it got far enough to start
+ * one. Returns the last attempt, with the output of all attempts and a retry
+ * record after each retried one.
+ */
+export async function runWithRetries<T extends RetryableRun>(
+  run: (resumeSessionId?: string) => Promise<T>,
+  maxRetries: number,
+  hooks: {
+    onRetry?: (record: RetryRecord) => void;
+    sleep?: (ms: number) => Promise<void>;
+    random?: () => number;
+  } = {},
+): Promise<T> {
+  const sleep =
+    hooks.sleep ??
+    ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  let attempt = await run();
+  let output = attempt.output;
+
+  for (let retry = 0; retry < maxRetries && attempt.exitCode !== 0; retry++) {
+    const failure = classifyFailure(attempt);
+    if (!failure.transient) {
+      break;
+    }
+
+    const record: RetryRecord = {
+      type: "retry",
+      attempt: retry + 1,
+      exit_code: attempt.exitCode,
+      reason: failure.reason,
+      delay_ms: retryDelayMs(retry, hooks.random),
+      resume_session_id: findSessionId(attempt.output),
+    };
+    output += `${JSON.stringify(record)}\n`;
+    hooks.onRetry?.(record);
+
+    await sleep(record.delay_ms);
+    attempt = await run(record.resume_session_id);
+    output += attempt.output;
+  }
+
+  return { ...attempt, output };
+}
@@ -1,14 +1,42 @@
-import * as core from "@actions/core";
+/**
+ * Runs Claude Code and reports the result, on any CI platform.
+ *
+ * Everything platform specific (inputs, outputs, log messages, the summary
+ * and where files go) goes through the PlatformAdapter passed to runClaude.
+ */
+
 import { exec } from "child_process";
 import { promisify } from "util";
-import { unlink, writeFile, stat } from "fs/promises";
+import { mkdir, unlink, writeFile, stat } from "fs/promises";
 import { createWriteStream } from "fs";
 import { spawn } from "child_process";
+import { LocalAdapter, type PlatformAdapter } from "./platform";
+import { parseCustomEnvVars } from "./custom-env";
+import { createRedactor } from "./redact";
+import { BudgetTracker, parseBudgetLimits, type BudgetLimits } from "./budget";
+import { parseStreamJson } from "./stream-json";
+import {
+  collectMetrics,
+  formatMetricsSummary,
+  metricsOutputs,
+} from "./metrics";
+import {
+  compileJsonSchema,
+  ensureValidJsonOutput,
+  jsonOutputInstructions,
+  loadJsonSchema,
+  parseJsonSchemaRetries,
+  type JsonOutputCheck,
+} from "./json-output";
+import { parseMaxRetries, RESUME_PROMPT, runWithRetries } from "./retry";
 
 const execAsync = promisify(exec);
 
-const PIPE_PATH = `${process.env.RUNNER_TEMP}/claude_prompt_pipe`;
-const EXECUTION_FILE = `${process.env.RUNNER_TEMP}/claude-execution-output.json`;
+const PIPE_FILE = "claude_prompt_pipe";
+const EXECUTION_FILE = "claude-execution-output.json";
+const RESULT_FILE = "claude-result.json";
+const CORRECTION_PROMPT_FILE = "claude-correction-prompt.txt";
+const RESUME_PROMPT_FILE = "claude-resume-prompt.txt";
 const BASE_ARGS = ["-p", "--verbose", "--output-format", "stream-json"];
 
 export type ClaudeOptions = {
@@ -22,46 +50,29 @@ export type ClaudeOptions = {
   fallbackModel?: string;
   timeoutMinutes?: string;
   model?: string;
+  maxCostUsd?: string;
+  maxTotalTokens?: string;
+  jsonSchema?: string;
+  jsonSchemaRetries?: string;
+  resumeSessionId?: string;
+  maxRetries?: string;
+  logFormat?: string;
+  logColor?: string;
+};
+
+export type ClaudeRunResult = {
+  exitCode: number;
+  output: string;
+  conclusion: "success" | "failure" | "budget_exceeded";
 };
 
 type PreparedConfig = {
   claudeArgs: string[];
   promptPath: string;
   env: Record<string, string>;
+  budget: BudgetLimits;
 };
 
-function parseCustomEnvVars(claudeEnv?: string): Record<string, string> {
-  if (!claudeEnv || claudeEnv.trim() === "") {
-    return {};
-  }
-
-  const customEnv: Record<string, string> = {};
-
-  // Split by lines and parse each line as KEY: VALUE
-  const lines = claudeEnv.split("\n");
-
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    if (trimmedLine === "" || trimmedLine.startsWith("#")) {
-      continue; // Skip empty lines and comments
-    }
-
-    const colonIndex = trimmedLine.indexOf(":");
-    if (colonIndex === -1) {
-      continue; // Skip lines without colons
-    }
-
-    const key = trimmedLine.substring(0, colonIndex).trim();
-    const value = trimmedLine.substring(colonIndex + 1).trim();
-
-    if (key) {
-      customEnv[key] = value;
-    }
-  }
-
-  return customEnv;
-}
-
 export function prepareRunConfig(
   promptPath: string,
   options: ClaudeOptions,
@@ -98,6 +109,9 @@ export function prepareRunConfig(
   if (options.model) {
     claudeArgs.push("--model", options.model);
   }
+  if (options.resumeSessionId) {
+    claudeArgs.push("--resume", options.resumeSessionId);
+  }
   if (options.timeoutMinutes) {
     const timeoutMinutesNum = parseInt(options.timeoutMinutes, 10);
     if (isNaN(timeoutMinutesNum) || timeoutMinutesNum <= 0) {
@@ -107,32 +121,109 @@ export function prepareRunConfig(
     }
   }
 
+  // Enforced by the runner while Claude runs, since the CLI has no such limits
+  const budget = parseBudgetLimits(options);
+
   // Parse custom environment variables
   const customEnv = parseCustomEnvVars(options.claudeEnv);
 
-  if (process.env.INPUT_ACTION_INPUTS_PRESENT) {
-    customEnv.GITHUB_ACTION_INPUTS = process.env.INPUT_ACTION_INPUTS_PRESENT;
-  }
-
   return {
     claudeArgs,
     promptPath,
     env: customEnv,
+    budget,
   };
 }
 
-export async function runClaude(promptPath: string, options: ClaudeOptions) {
-  const config = prepareRunConfig(promptPath, options);
+// Reports the cost, token and turn metrics of the run's result events
+async function reportMetrics(
+  platform: PlatformAdapter,
+  output: string,
+  conclusion: string,
+) {
+  const metrics = collectMetrics(parseStreamJson(output));
+  if (!metrics) {
+    return;
+  }
+
+  for (const [name, value] of Object.entries(metricsOutputs(metrics))) {
+    platform.setOutput(name, value);
+  }
+
+  try {
+    await platform.writeSummary(formatMetricsSummary(metrics, conclusion));
+  } catch (e) {
+    platform.warning(`Failed to write execution summary: ${e}`);
+  }
+}
+
+// Saves the run's stream-json output as a JSON array
+async function writeExecutionFile(output: string, path: string) {
+  await writeFile("output.txt", output);
+
+  // Increase maxBuffer from Node.js default of 1MB to 10MB to handle large Claude outputs
+  const { stdout: json } = await execAsync("jq -s '.' output.txt", {
+    maxBuffer: 10 * 1024 * 1024,
+  });
+  await writeFile(path, json);
+}
+
+type ClaudeExecution = {
+  exitCode: number;
+  output: string;
+  stderr: string;
+  budgetExceeded: boolean;
+};
+
+// The time all attempts together may take, from timeout_minutes
+function parseTimeoutMs(
+  platform: PlatformAdapter,
+  options: ClaudeOptions,
+): number {
+  let timeoutMs = 10 * 60 * 1000; // Default 10 minutes
+  if (options.timeoutMinutes) {
+    timeoutMs = parseInt(options.timeoutMinutes, 10) * 60 * 1000;
+  } else if (platform.getInput("timeout_minutes")) {
+    const inputTimeout = platform.getInput("timeout_minutes")!;
+    const envTimeout = parseInt(inputTimeout, 10);
+    if (isNaN(envTimeout) || envTimeout <= 0) {
+      throw new Error(
+        `timeout_minutes must be a positive number, got: ${inputTimeout}`,
+      );
+    }
+    timeoutMs = envTimeout * 60 * 1000;
+  }
+  return timeoutMs;
+}
+
+// Runs Claude once, logging its output as it arrives, and stops it at the deadline
+async function executeClaude(
+  platform: PlatformAdapter,
+  config: PreparedConfig,
+  options: ClaudeOptions,
+  budget: BudgetTracker,
+  deadline: number,
+): Promise<ClaudeExecution> {
+  // Earlier attempts used up the time, e.g. before a retry or correction
+  if (Date.now() >= deadline) {
+    console.error("Claude process timed out before it could start");
+    return { exitCode: 124, output: "", stderr: "", budgetExceeded: false };
+  }
+
+  const renderer = platform.createLogRenderer(options);
+  const redactor = createRedactor();
+  const pipePath = `${platform.tempDir()}/${PIPE_FILE}`;
+  await mkdir(platform.tempDir(), { recursive: true });
 
   // Create a named pipe
   try {
-    await unlink(PIPE_PATH);
+    await unlink(pipePath);
   } catch (e) {
     // Ignore if file doesn't exist
   }
 
   // Create the named pipe
-  await execAsync(`mkfifo "${PIPE_PATH}"`);
+  await execAsync(`mkfifo "${pipePath}"`);
 
   // Log prompt file size
   let promptSize = "unknown";
@@ -160,7 +251,7 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
   const catProcess = spawn("cat", [config.promptPath], {
     stdio: ["ignore", "pipe", "inherit"],
   });
-  const pipeStream = createWriteStream(PIPE_PATH);
+  const pipeStream = createWriteStream(pipePath);
   catProcess.stdout.pipe(pipeStream);
 
   catProcess.on("error", (error) => {
@@ -169,10 +260,11 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
   });
 
   const claudeProcess = spawn("claude", config.claudeArgs, {
-    stdio: ["pipe", "pipe", "inherit"],
+    stdio: ["pipe", "pipe", "pipe"],
     env: {
       ...process.env,
       ...config.env,
+      ...platform.claudeEnv(),
     },
   });
 
@@ -182,34 +274,47 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
     pipeStream.destroy();
   });
 
-  // Capture output for parsing execution metrics
-  let output = "";
-  claudeProcess.stdout.on("data", (data) => {
-    const text = data.toString();
-
-    // Try to parse as JSON and pretty print if it's on a single line
-    const lines = text.split("\n");
-    lines.forEach((line: string, index: number) => {
-      if (line.trim() === "") return;
-
+  // Ask Claude to stop, and force it if it has not exited after 5 seconds
+  let killTimeoutId: ReturnType<typeof setTimeout> | undefined;
+  const stopClaude = () => {
+    claudeProcess.kill("SIGTERM");
+    killTimeoutId = setTimeout(() => {
       try {
-        // Check if this line is a JSON object
-        const parsed = JSON.parse(line);
-        const prettyJson = JSON.stringify(parsed, null, 2);
-        process.stdout.write(prettyJson);
-        if (index < lines.length - 1 || text.endsWith("\n")) {
-          process.stdout.write("\n");
-        }
+        claudeProcess.kill("SIGKILL");
       } catch (e) {
-        // Not a JSON object, print as is
-        process.stdout.write(line);
-        if (index < lines.length - 1 || text.endsWith("\n")) {
-          process.stdout.write("\n");
-        }
+        // Process may already be dead
       }
-    });
+    }, 5000);
+  };
+  claudeProcess.on("close", () => clearTimeout(killTimeoutId));
+
+  // Capture output for parsing execution metrics, masking secrets before
+  // anything is logged or saved to the execution file
+  let output = "";
+  let budgetExceeded = false;
+  const stdoutRedactor = redactor.stream();
+  claudeProcess.stdout.on("data", (data) => {
+    const text = stdoutRedactor.push(data.toString());
 
+    // Raw events only go to the execution file; the log gets the rendered form
+    process.stdout.write(renderer.push(text));
     output += text;
+
+    const overBudget = budget.push(text);
+    if (overBudget) {
+      platform.warning(`${overBudget}; stopping Claude`);
+      budgetExceeded = true;
+      stopClaude();
+    }
+  });
+
+  // Kept to tell transient API errors from other failures
+  let stderr = "";
+  const stderrRedactor = redactor.stream();
+  claudeProcess.stderr.on("data", (data) => {
+    const text = stderrRedactor.push(data.toString());
+    process.stderr.write(text);
+    stderr += text;
   });
 
   // Handle stdout errors
@@ -218,7 +323,7 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
   });
 
   // Pipe from named pipe to Claude
-  const pipeProcess = spawn("cat", [PIPE_PATH]);
+  const pipeProcess = spawn("cat", [pipePath]);
   pipeProcess.stdout.pipe(claudeProcess.stdin);
 
   // Handle pipe process errors
@@ -227,19 +332,8 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
     claudeProcess.kill("SIGTERM");
   });
 
-  // Wait for Claude to finish with timeout
-  let timeoutMs = 10 * 60 * 1000; // Default 10 minutes
-  if (options.timeoutMinutes) {
-    timeoutMs = parseInt(options.timeoutMinutes, 10) * 60 * 1000;
-  } else if (process.env.INPUT_TIMEOUT_MINUTES) {
-    const envTimeout = parseInt(process.env.INPUT_TIMEOUT_MINUTES, 10);
-    if (isNaN(envTimeout) || envTimeout <= 0) {
-      throw new Error(
-        `INPUT_TIMEOUT_MINUTES must be a positive number, got: ${process.env.INPUT_TIMEOUT_MINUTES}`,
-      );
-    }
-    timeoutMs = envTimeout * 60 * 1000;
-  }
+  // Wait for Claude to finish, at the latest until the deadline
+  const timeoutMs = Math.max(deadline - Date.now(), 0);
   const exitCode = await new Promise<number>((resolve) => {
     let resolved = false;
 
@@ -247,17 +341,9 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
     const timeoutId = setTimeout(() => {
       if (!resolved) {
         console.error(
-          `Claude process timed out after ${timeoutMs / 1000} seconds`,
+          `Claude process timed out after ${Math.round(timeoutMs / 1000)} seconds`,
         );
-        claudeProcess.kill("SIGTERM");
-        // Give it 5 seconds to terminate gracefully, then force kill
-        setTimeout(() => {
-          try {
-            claudeProcess.kill("SIGKILL");
-          } catch (e) {
-            // Process may already be dead
-          }
-        }, 5000);
+        stopClaude();
         resolved = true;
         resolve(124); // Standard timeout exit code
       }
@@ -281,6 +367,14 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
     });
   });
 
+  // Close any sections left open by an interrupted run
+  const rest = stdoutRedactor.flush();
+  output += rest;
+  process.stdout.write(renderer.push(rest) + renderer.flush());
+  const stderrRest = stderrRedactor.flush();
+  stderr += stderrRest;
+  process.stderr.write(stderrRest);
+
   // Clean up processes
   try {
     catProcess.kill("SIGTERM");
@@ -295,49 +389,168 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
 
   // Clean up pipe file
   try {
-    await unlink(PIPE_PATH);
+    await unlink(pipePath);
   } catch (e) {
     // Ignore errors during cleanup
   }
 
-  // Set conclusion based on exit code
-  if (exitCode === 0) {
-    // Try to process the output and save execution metrics
-    try {
-      await writeFile("output.txt", output);
+  return { exitCode, output, stderr, budgetExceeded };
+}
+
+/**
+ * Runs Claude with follow-up runs for transient errors and invalid JSON
+ * output, then saves the execution file and sets the outputs. Exiting on
+ * failure is left to the caller so it can report the result first.
+ */
+export async function runClaude(
+  promptPath: string,
+  options: ClaudeOptions,
+  platform: PlatformAdapter = new LocalAdapter(),
+): Promise<ClaudeRunResult> {
+  const executionFile = `${platform.outputDir()}/${EXECUTION_FILE}`;
+  const resultFile = `${platform.outputDir()}/${RESULT_FILE}`;
+  const correctionPromptPath = `${platform.tempDir()}/${CORRECTION_PROMPT_FILE}`;
+  const resumePromptPath = `${platform.tempDir()}/${RESUME_PROMPT_FILE}`;
+
+  // Loaded before Claude runs, so an unusable schema fails the step right away
+  const schema = options.jsonSchema
+    ? await loadJsonSchema(options.jsonSchema)
+    : undefined;
+  const validate = schema && compileJsonSchema(schema);
+  const retries = parseJsonSchemaRetries(options.jsonSchemaRetries);
+  const maxRetries = parseMaxRetries(options.maxRetries);
+  const runOptions: ClaudeOptions = schema
+    ? {
+        ...options,
+        appendSystemPrompt: [
+          options.appendSystemPrompt,
+          jsonOutputInstructions(schema),
+        ]
+          .filter(Boolean)
+          .join("\n\n"),
+      }
+    : options;
+
+  const config = prepareRunConfig(promptPath, runOptions);
+  const budget = new BudgetTracker(config.budget);
+  // Retries and corrections share timeout_minutes with the first attempt
+  const deadline = Date.now() + parseTimeoutMs(platform, runOptions);
+
+  // Runs a prompt, retrying transient API errors in the same session
+  const attemptClaude = (
+    attemptPromptPath: string,
+    attemptOptions: ClaudeOptions,
+  ) =>
+    runWithRetries(
+      async (resumeSessionId) => {
+        if (!resumeSessionId) {
+          return executeClaude(
+            platform,
+            prepareRunConfig(attemptPromptPath, attemptOptions),
+            runOptions,
+            budget,
+            deadline,
+          );
+        }
+        await writeFile(resumePromptPath, RESUME_PROMPT);
+        return executeClaude(
+          platform,
+          prepareRunConfig(resumePromptPath, {
+            ...attemptOptions,
+            resumeSessionId,
+          }),
+          runOptions,
+          budget,
+          deadline,
+        );
+      },
+      maxRetries,
+      {
+        onRetry: (record) =>
+          platform.warning(
+            `Claude failed with a transient error (${record.reason}); retrying in ${Math.round(record.delay_ms / 1000)}s (retry ${record.attempt} of ${maxRetries})`,
+          ),
+      },
+    );
+
+  let { exitCode, output, budgetExceeded } = await attemptClaude(
+    promptPath,
+    runOptions,
+  );
+
+  let jsonOutput: JsonOutputCheck | undefined;
+  if (validate && exitCode === 0 && !budgetExceeded) {
+    const checked = await ensureValidJsonOutput(
+      { exitCode, output },
+      validate,
+      retries,
+      async (prompt, sessionId) => {
+        platform.warning(
+          "Claude's JSON output is invalid, asking it to correct it",
+        );
+        await writeFile(correctionPromptPath, prompt);
+        const correction = await attemptClaude(correctionPromptPath, {
+          ...runOptions,
+          resumeSessionId: sessionId,
+        });
+        budgetExceeded ||= correction.budgetExceeded;
+        return {
+          exitCode: correction.budgetExceeded
+            ? correction.exitCode || 1
+            : correction.exitCode,
+          output: correction.output,
+        };
+      },
+    );
+    ({ exitCode, output } = checked);
+    jsonOutput = checked.check;
+
+    if (!jsonOutput.valid && exitCode === 0) {
+      platform.error(
+        `Claude's output does not match the JSON schema:\n${jsonOutput.errors.join("\n")}`,
+      );
+      exitCode = 1;
+    }
+  }
 
-      // Process output.txt into JSON and save to execution file
-      // Increase maxBuffer from Node.js default of 1MB to 10MB to handle large Claude outputs
-      const { stdout: jsonOutput } = await execAsync("jq -s '.' output.txt", {
-        maxBuffer: 10 * 1024 * 1024,
-      });
-      await writeFile(EXECUTION_FILE, jsonOutput);
+  // Claude exits cleanly when stopped for exceeding the budget, so that is a failure too
+  const conclusion = budgetExceeded
+    ? "budget_exceeded"
+    : exitCode === 0
+      ? "success"
+      : "failure";
+  platform.setOutput("conclusion", conclusion);
 
-      console.log(`Log saved to ${EXECUTION_FILE}`);
+  if (conclusion === "success") {
+    // Try to process the output and save execution metrics
+    try {
+      await writeExecutionFile(output, executionFile);
+      console.log(`Log saved to ${executionFile}`);
     } catch (e) {
-      core.warning(`Failed to process output for execution metrics: ${e}`);
+      platform.warning(`Failed to process output for execution metrics: ${e}`);
     }
+    platform.setOutput("execution_file", executionFile);
 
-    core.setOutput("conclusion", "success");
-    core.setOutput("execution_file", EXECUTION_FILE);
-  } else {
-    core.setOutput("conclusion", "failure");
-
+    if (jsonOutput?.valid) {
+      await writeFile(resultFile, JSON.stringify(jsonOutput.value, null, 2));
+      platform.setOutput("structured_output", JSON.stringify(jsonOutput.value));
+      platform.setOutput("structured_output_file", resultFile);
+    }
+  } else if (output) {
     // Still try to save execution file if we have output
-    if (output) {
-      try {
-        await writeFile("output.txt", output);
-        // Increase maxBuffer from Node.js default of 1MB to 10MB to handle large Claude outputs
-        const { stdout: jsonOutput } = await execAsync("jq -s '.' output.txt", {
-          maxBuffer: 10 * 1024 * 1024,
-        });
-        await writeFile(EXECUTION_FILE, jsonOutput);
-        core.setOutput("execution_file", EXECUTION_FILE);
-      } catch (e) {
-        // Ignore errors when processing output during failure
-      }
+    try {
+      await writeExecutionFile(output, executionFile);
+      platform.setOutput("execution_file", executionFile);
+    } catch (e) {
+      // Ignore errors when processing output during failure
     }
-
-    process.exit(exitCode);
   }
+
+  await reportMetrics(platform, output, conclusion);
+
+  return {
+    exitCode: budgetExceeded ? exitCode || 1 : exitCode,
+    output,
+    conclusion,
+  };
 }
@@ -1,11 +1,31 @@
 import { $ } from "bun";
 import { homedir } from "os";
 import { readFile } from "fs/promises";
+import { createRedactor, REDACTED, type Redactor } from "./redact";
+
+// Settings can carry credentials, most often in their `env` block
+function formatSettingsForLog(
+  settings: Record<string, unknown>,
+  redactor: Redactor,
+): string {
+  const env = settings.env;
+  const masked =
+    env && typeof env === "object"
+      ? {
+          ...settings,
+          env: Object.fromEntries(
+            Object.keys(env).map((key) => [key, REDACTED]),
+          ),
+        }
+      : settings;
+  return redactor.redact(JSON.stringify(masked, null, 2));
+}
 
 export async function setupClaudeCodeSettings(
   settingsInput?: string,
   homeDir?: string,
   slashCommandsDir?: string,
+  redactor: Redactor = createRedactor(),
 ) {
   const home = homeDir ?? homedir();
   const settingsPath = `${home}/.claude/settings.json`;
@@ -22,7 +42,7 @@ export async function setupClaudeCodeSettings(
       settings = JSON.parse(existingSettings);
       console.log(
         `Found existing settings:`,
-        JSON.stringify(settings, null, 2),
+        formatSettingsForLog(settings, redactor),
       );
     } else {
       console.log(`Settings file exists but is empty`);
@@ -0,0 +1,124 @@
+/**
+ * Helpers for Claude Code's `--output-format stream-json` output, which is a
+ * sequence of newline-delimited JSON events.
+ */
+
+export type StreamEvent = {
+  type: string;
+  subtype?: string;
+  [key: string]: unknown;
+};
+
+export type ResultEvent = StreamEvent & {
+  type: "result";
+  is_error?: boolean;
+  result?: string;
+  session_id?: string;
+  total_cost_usd?: number;
+  duration_ms?: number;
+  num_turns?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+};
+
+// The message of an assistant or user event
+export type StreamMessage = {
+  id?: string;
+  model?: string;
+  content?: unknown;
+  usage?: ResultEvent["usage"];
+};
+
+const MAX_SUMMARY_LENGTH = 80;
+
+// Parses one line of output, or returns undefined if it is not an event
+export function parseStreamEvent(line: string): StreamEvent | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(line);
+  } catch (e) {
+    // Not JSON (e.g. stray log output)
+    return undefined;
+  }
+  return parsed && typeof parsed === "object" && "type" in parsed
+    ? (parsed as StreamEvent)
+    : undefined;
+}
+
+export function parseStreamJson(output: string): StreamEvent[] {
+  const events: StreamEvent[] = [];
+
+  for (const line of output.split("\n")) {
+    if (line.trim() === "") continue;
+
+    const event = parseStreamEvent(line);
+    if (event) {
+      events.push(event);
+    }
+  }
+
+  return events;
+}
+
+export function eventMessage(event: StreamEvent): StreamMessage | undefined {
+  const { message } = event;
+  return message && typeof message === "object"
+    ? (message as StreamMessage)
+    : undefined;
+}
+
+// The content blocks of an event's message
+export function eventContent<Block>(event: StreamEvent): Block[] {
+  const content = eventMessage(event)?.content;
+  return Array.isArray(content) ? content : [];
+}
+
+/**
+ * The result of a run: the last result event, ignoring the replies to JSON
+ * corrections, which only repeat the JSON output of the result before them.
+ */
+export function findResultEvent(
+  events: StreamEvent[],
+): ResultEvent | undefined {
+  const correction = events.findIndex(
+    (event) => event.type === "json_correction",
+  );
+  const end = correction === -1 ? events.length : correction;
+  for (let i = end - 1; i >= 0; i--) {
+    if (events[i]!.type === "result") {
+      return events[i] as ResultEvent;
+    }
+  }
+  return undefined;
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 60000
+    ? `${(ms / 1000).toFixed(1)}s`
+    : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+// The most telling input of common tools, e.g. the command a Bash call runs
+export function summarizeToolInput(
+  input: Record<string, unknown> = {},
+): string {
+  const value = [
+    input.command,
+    input.file_path,
+    input.path,
+    input.pattern,
+    input.url,
+    input.description,
+  ].find((candidate) => typeof candidate === "string" && candidate.trim());
+  if (typeof value !== "string") {
+    return "";
+  }
+  const firstLine = value.trim().split("\n")[0]!;
+  return firstLine.length > MAX_SUMMARY_LENGTH
+    ? `${firstLine.slice(0, MAX_SUMMARY_LENGTH - 3)}...`
+    : firstLine;
+}
@@ -0,0 +1,239 @@
+/**
+ * Renderers for Claude's stream-json output on the console.
+ *
+ * The raw events are always kept for the execution file; these only decide
+ * what the live log looks like. "json" pretty-prints every event, while
+ * "transcript" reads like a conversation: assistant text as prose, one line
+ * per tool call, the first few lines of each tool result and a summary block
+ * at the end.
+ */
+
+import {
+  eventContent,
+  formatDuration,
+  parseStreamEvent,
+  summarizeToolInput,
+  type ResultEvent,
+  type StreamEvent,
+} from "./stream-json";
+
+export type StreamRenderer = {
+  // Accepts a chunk of raw stdout and returns the text to log for it
+  push(chunk: string): string;
+  // Returns the text for anything still buffered once the stream has ended
+  flush(): string;
+};
+
+export const LOG_FORMATS = ["json", "transcript"] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+export const LOG_COLOR_MODES = ["auto", "always", "never"] as const;
+
+// Tool results longer than this are cut off in the transcript
+export const MAX_RESULT_LINES = 5;
+
+type ContentBlock = {
+  type: string;
+  text?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  content?: unknown;
+  is_error?: boolean;
+};
+
+const COLORS = {
+  bold: "1",
+  dim: "2",
+  red: "31",
+  green: "32",
+  cyan: "36",
+};
+
+/**
+ * Whether to colour the log. "auto" only colours a TTY and honours NO_COLOR;
+ * job logs are piped, so colour there has to be asked for with "always".
+ */
+export function resolveColor(
+  mode: string | undefined,
+  stream: { isTTY?: boolean },
+  env: Record<string, string | undefined> = process.env,
+): boolean {
+  const value = mode?.trim() || "auto";
+  if (!(LOG_COLOR_MODES as readonly string[]).includes(value)) {
+    throw new Error(
+      `logColor must be one of ${LOG_COLOR_MODES.join(", ")}, got: ${mode}`,
+    );
+  }
+  if (value === "auto") {
+    return Boolean(stream.isTTY) && !env.NO_COLOR;
+  }
+  return value === "always";
+}
+
+export function parseLogFormat(format: string | undefined): LogFormat {
+  const value = format?.trim() || "json";
+  if (!(LOG_FORMATS as readonly string[]).includes(value)) {
+    throw new Error(
+      `logFormat must be one of ${LOG_FORMATS.join(", ")}, got: ${format}`,
+    );
+  }
+  return value as LogFormat;
+}
+
+export function createStreamRenderer(
+  format: LogFormat,
+  color: boolean,
+): StreamRenderer {
+  return format === "transcript"
+    ? new TranscriptRenderer(color)
+    : new JsonRenderer();
+}
+
+// Splits the stream into complete lines, which may span several chunks
+abstract class LineRenderer implements StreamRenderer {
+  private partialLine = "";
+
+  push(chunk: string): string {
+    const lines = (this.partialLine + chunk).split("\n");
+    this.partialLine = lines.pop()!;
+    return lines.map((line) => this.renderLine(line)).join("");
+  }
+
+  flush(): string {
+    const rest = this.partialLine ? this.renderLine(this.partialLine) : "";
+    this.partialLine = "";
+    return rest;
+  }
+
+  protected abstract renderLine(line: string): string;
+}
+
+export class JsonRenderer extends LineRenderer {
+  protected renderLine(line: string): string {
+    if (line.trim() === "") {
+      return "";
+    }
+    try {
+      return `${JSON.stringify(JSON.parse(line), null, 2)}\n`;
+    } catch (e) {
+      return `${line}\n`;
+    }
+  }
+}
+
+export class TranscriptRenderer extends LineRenderer {
+  constructor(
+    private readonly color: boolean,
+    private readonly maxResultLines = MAX_RESULT_LINES,
+  ) {
+    super();
+  }
+
+  protected renderLine(line: string): string {
+    if (line.trim() === "") {
+      return "";
+    }
+
+    const event = parseStreamEvent(line);
+    if (!event) {
+      return `${line}\n`;
+    }
+
+    const content = eventContent<ContentBlock>(event);
+
+    switch (event.type) {
+      case "system":
+        return event.subtype === "init" ? this.renderInit(event) : "";
+      case "assistant":
+        return content.map((block) => this.renderAssistant(block)).join("");
+      case "user":
+        return content
+          .filter((block) => block.type === "tool_result")
+          .map((block) => this.renderToolResult(block))
+          .join("");
+      case "result":
+        return this.renderResult(event as ResultEvent);
+      default:
+        return "";
+    }
+  }
+
+  private paint(color: keyof typeof COLORS, text: string): string {
+    return this.color ? `\x1b[${COLORS[color]}m${text}\x1b[0m` : text;
+  }
+
+  private renderInit(event: StreamEvent): string {
+    const tools = Array.isArray(event.tools) ? event.tools.length : 0;
+    const header = `Session started (model ${event.model ?? "unknown"}, ${tools} tools)`;
+    return `${this.paint("dim", header)}\n\n`;
+  }
+
+  private renderAssistant(block: ContentBlock): string {
+    if (block.type === "text" && block.text?.trim()) {
+      return `${block.text.trim()}\n\n`;
+    }
+    if (block.type === "tool_use") {
+      const summary = summarizeToolInput(block.input);
+      return `${this.paint("cyan", `→ ${block.name ?? "tool"}`)}${summary ? ` ${summary}` : ""}\n`;
+    }
+    return "";
+  }
+
+  private renderToolResult(block: ContentBlock): string {
+    const lines = toolResultText(block.content).trimEnd().split("\n");
+    const shown = lines.slice(0, this.maxResultLines);
+    const hidden = lines.length - shown.length;
+
+    let out = block.is_error ? `  ${this.paint("red", "✗ error")}\n` : "";
+    out += shown
+      .map((line) => this.paint("dim", `  ${line}`.trimEnd()))
+      .join("\n");
+    if (hidden > 0) {
+      out += `\n${this.paint("dim", `  … ${hidden} more line${hidden === 1 ? "" : "s"}`)}`;
+    }
+    return `${out}\n\n`;
+  }
+
+  private renderResult(event: ResultEvent): string {
+    const failed = event.is_error || event.subtype !== "success";
+    const status = failed
+      ? this.paint("red", `✗ ${event.subtype ?? "error"}`)
+      : this.paint("green", "✓ success");
+    const stats = [
+      typeof event.num_turns === "number" ? `${event.num_turns} turns` : "",
+      typeof event.duration_ms === "number"
+        ? formatDuration(event.duration_ms)
+        : "",
+      typeof event.total_cost_usd === "number"
+        ? `$${event.total_cost_usd.toFixed(4)}`
+        : "",
+    ].filter(Boolean);
+
+    let out = `${this.paint("bold", "── Result ──")}\n`;
+    if (event.result?.trim()) {
+      out += `${event.result.trim()}\n\n`;
+    }
+    out += status;
+    if (stats.length > 0) {
+      out += ` ${this.paint("dim", `(${stats.join(", ")})`)}`;
+    }
+    return `${out}\n`;
+  }
+}
+
+// Tool results are either a string or a list of content blocks
+function toolResultText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((block) =>
+        block?.type === "text" && typeof block.text === "string"
+          ? block.text
+          : `[${block?.type ?? "content"}]`,
+      )
+      .join("\n");
+  }
+  return "";
+}
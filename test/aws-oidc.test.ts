@@ -0,0 +1,145 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  awsCredentialsEnv,
+  buildRoleSessionName,
+  getAwsOidcCredentials,
+  StsError,
+} from "../gitlab/aws-oidc";
+
+const SUCCESS_RESPONSE = `<AssumeRoleWithWebIdentityResponse xmlns="https://sts.amazonaws.com/doc/2011-06-15/">
+  <AssumeRoleWithWebIdentityResult>
+    <Credentials>
+      <AccessKeyId>ASIATEST</AccessKeyId>
+      <SecretAccessKey>secret</SecretAccessKey>
+      <SessionToken>session-token</SessionToken>
+      <Expiration>2026-01-01T01:00:00Z</Expiration>
+    </Credentials>
+  </AssumeRoleWithWebIdentityResult>
+</AssumeRoleWithWebIdentityResponse>`;
+
+const ERROR_RESPONSE = `<ErrorResponse xmlns="https://sts.amazonaws.com/doc/2011-06-15/">
+  <Error>
+    <Type>Sender</Type>
+    <Code>InvalidIdentityToken</Code>
+    <Message>Incorrect token audience</Message>
+  </Error>
+</ErrorResponse>`;
+
+describe("getAwsOidcCredentials", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let requests: URLSearchParams[];
+  let response: { status: number; body: string };
+  let env: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    requests = [];
+    response = { status: 200, body: SUCCESS_RESPONSE };
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        requests.push(new URLSearchParams(await req.text()));
+        return new Response(response.body, {
+          status: response.status,
+          headers: { "Content-Type": "text/xml" },
+        });
+      },
+    });
+    env = {
+      AWS_ENDPOINT_URL_STS: `http://localhost:${server.port}/`,
+      AWS_REGION: "us-west-2",
+      AWS_ROLE_ARN: "arn:aws:iam::123456789012:role/claude",
+      AWS_ID_TOKEN: "id-token",
+      CI_PROJECT_ID: "42",
+      CI_JOB_ID: "1001",
+    };
+  });
+
+  afterEach(() => {
+    server.stop(true);
+  });
+
+  test("should exchange the ID token for temporary credentials", async () => {
+    const credentials = await getAwsOidcCredentials(env);
+
+    expect(credentials).toEqual({
+      accessKeyId: "ASIATEST",
+      secretAccessKey: "secret",
+      sessionToken: "session-token",
+      expiration: "2026-01-01T01:00:00Z",
+    });
+    expect(Object.fromEntries(requests[0]!)).toEqual({
+      Action: "AssumeRoleWithWebIdentity",
+      Version: "2011-06-15",
+      RoleArn: "arn:aws:iam::123456789012:role/claude",
+      RoleSessionName: "gitlab-42-1001",
+      WebIdentityToken: "id-token",
+    });
+  });
+
+  test("should fall back to CI_JOB_JWT_V2 and pass the duration", async () => {
+    delete env.AWS_ID_TOKEN;
+    env.CI_JOB_JWT_V2 = "legacy-token";
+    env.AWS_ROLE_DURATION_SECONDS = "900";
+
+    await getAwsOidcCredentials(env);
+
+    expect(requests[0]!.get("WebIdentityToken")).toBe("legacy-token");
+    expect(requests[0]!.get("DurationSeconds")).toBe("900");
+  });
+
+  test("should surface STS errors", async () => {
+    response = { status: 400, body: ERROR_RESPONSE };
+
+    const error = await getAwsOidcCredentials(env).catch((e) => e);
+
+    expect(error).toBeInstanceOf(StsError);
+    expect(error.message).toBe(
+      "STS AssumeRoleWithWebIdentity failed (400 InvalidIdentityToken): Incorrect token audience",
+    );
+  });
+
+  test("should require a role ARN and an ID token", async () => {
+    delete env.AWS_ID_TOKEN;
+
+    await expect(getAwsOidcCredentials(env)).rejects.toThrow(
+      "AWS_ROLE_ARN and a GitLab ID token (AWS_ID_TOKEN or CI_JOB_JWT_V2) are required",
+    );
+  });
+
+  test("should reject an invalid duration", async () => {
+    env.AWS_ROLE_DURATION_SECONDS = "soon";
+
+    await expect(getAwsOidcCredentials(env)).rejects.toThrow(
+      "AWS_ROLE_DURATION_SECONDS must be a positive number, got: soon",
+    );
+  });
+});
+
+describe("buildRoleSessionName", () => {
+  test("should replace invalid characters and limit the length", () => {
+    expect(
+      buildRoleSessionName({
+        AWS_ROLE_SESSION_NAME: `my job/${"x".repeat(80)}`,
+      }),
+    ).toBe(`my-job-${"x".repeat(57)}`);
+  });
+});
+
+describe("awsCredentialsEnv", () => {
+  test("should map credentials to the standard AWS variables", () => {
+    expect(
+      awsCredentialsEnv({
+        accessKeyId: "a",
+        secretAccessKey: "b",
+        sessionToken: "c",
+        expiration: "d",
+      }),
+    ).toEqual({
+      AWS_ACCESS_KEY_ID: "a",
+      AWS_SECRET_ACCESS_KEY: "b",
+      AWS_SESSION_TOKEN: "c",
+    });
+  });
+});
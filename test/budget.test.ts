@@ -0,0 +1,94 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import {
+  BudgetTracker,
+  estimateCostUsd,
+  parseBudgetLimits,
+} from "../src/budget";
+
+function assistant(id: string, model: string, usage: object): string {
+  return `${JSON.stringify({ type: "assistant", message: { id, model, usage, content: [] } })}\n`;
+}
+
+describe("parseBudgetLimits", () => {
+  test("should parse the limits and leave unset ones undefined", () => {
+    expect(parseBudgetLimits({ maxCostUsd: "2.5" })).toEqual({
+      maxCostUsd: 2.5,
+      maxTotalTokens: undefined,
+    });
+    expect(parseBudgetLimits({ maxTotalTokens: " 100000 " })).toEqual({
+      maxCostUsd: undefined,
+      maxTotalTokens: 100000,
+    });
+  });
+
+  test("should reject limits that are not positive numbers", () => {
+    expect(() => parseBudgetLimits({ maxCostUsd: "0" })).toThrow(
+      "maxCostUsd must be a positive number, got: 0",
+    );
+    expect(() => parseBudgetLimits({ maxTotalTokens: "1.5" })).toThrow(
+      "maxTotalTokens must be a positive number, got: 1.5",
+    );
+  });
+});
+
+describe("estimateCostUsd", () => {
+  test("should price tokens by model family", () => {
+    const usage = {
+      input_tokens: 1_000_000,
+      output_tokens: 100_000,
+      cache_read_input_tokens: 1_000_000,
+    };
+
+    expect(estimateCostUsd("claude-sonnet-4-20250514", usage)).toBeCloseTo(
+      3 + 1.5 + 0.3,
+    );
+    expect(estimateCostUsd("some-new-model", usage)).toBeCloseTo(
+      15 + 7.5 + 1.5,
+    );
+  });
+});
+
+describe("BudgetTracker", () => {
+  test("should count each message's usage once", () => {
+    const tracker = new BudgetTracker({ maxTotalTokens: 1000 });
+    const usage = { input_tokens: 300, output_tokens: 100 };
+
+    expect(tracker.push(assistant("msg_1", "sonnet", usage))).toBeUndefined();
+    expect(tracker.push(assistant("msg_1", "sonnet", usage))).toBeUndefined();
+    expect(tracker.tokens).toBe(400);
+  });
+
+  test("should report the token limit once it is crossed", () => {
+    const tracker = new BudgetTracker({ maxTotalTokens: 1000 });
+    const usage = { input_tokens: 500, cache_read_input_tokens: 100 };
+
+    expect(tracker.push(assistant("msg_1", "sonnet", usage))).toBeUndefined();
+    expect(tracker.push(assistant("msg_2", "sonnet", usage))).toBe(
+      "Used 1200 tokens, more than the budget of 1000",
+    );
+    expect(tracker.push(assistant("msg_3", "sonnet", usage))).toBeUndefined();
+  });
+
+  test("should report the cost limit for events split across chunks", () => {
+    const tracker = new BudgetTracker({ maxCostUsd: 1 });
+    const line = assistant("msg_1", "claude-opus-4-1", {
+      output_tokens: 20_000,
+    });
+
+    expect(tracker.push(line.slice(0, 20))).toBeUndefined();
+    expect(tracker.push(line.slice(20))).toBe(
+      "Estimated cost $1.5000 exceeds the budget of $1",
+    );
+  });
+
+  test("should do nothing without limits", () => {
+    const tracker = new BudgetTracker({});
+
+    tracker.push(assistant("msg_1", "sonnet", { input_tokens: 10 }));
+
+    expect(tracker.enabled).toBe(false);
+    expect(tracker.tokens).toBe(0);
+  });
+});
@@ -0,0 +1,293 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  applyCiConfig,
+  loadCiConfig,
+  parseCiConfig,
+  profileVariables,
+} from "../gitlab/ci-config";
+
+const CONFIG = `
+defaults:
+  model: claude-sonnet-4
+  timeout_minutes: 15
+profiles:
+  review:
+    prompt_file: .claude/prompts/review.md
+    allowed_tools: [Read, Grep, Glob]
+    max_turns: 20
+    mcp_config:
+      mcpServers:
+        docs:
+          command: docs-server
+    variables:
+      CLAUDE_REVIEW_DISCUSSIONS: true
+  docs:
+    model: claude-opus-4
+    claude_env:
+      DOCS_DIR: docs
+`;
+
+describe("profileVariables", () => {
+  const config = parseCiConfig(CONFIG, ".claude/ci.yml");
+
+  test("should layer the profile over the defaults", () => {
+    expect(profileVariables(config, "review", ".claude/ci.yml")).toEqual({
+      CLAUDE_MODEL: "claude-sonnet-4",
+      CLAUDE_TIMEOUT_MINUTES: "15",
+      CLAUDE_PROMPT_FILE: ".claude/prompts/review.md",
+      CLAUDE_ALLOWED_TOOLS: "Read,Grep,Glob",
+      CLAUDE_MAX_TURNS: "20",
+      CLAUDE_MCP_CONFIG: '{"mcpServers":{"docs":{"command":"docs-server"}}}',
+      CLAUDE_REVIEW_DISCUSSIONS: "true",
+    });
+    expect(profileVariables(config, "docs", ".claude/ci.yml")).toEqual({
+      CLAUDE_MODEL: "claude-opus-4",
+      CLAUDE_TIMEOUT_MINUTES: "15",
+      CLAUDE_ENV: "DOCS_DIR: docs",
+    });
+  });
+
+  test("should only apply the defaults without a profile", () => {
+    expect(profileVariables(config, undefined, ".claude/ci.yml")).toEqual({
+      CLAUDE_MODEL: "claude-sonnet-4",
+      CLAUDE_TIMEOUT_MINUTES: "15",
+    });
+  });
+
+  test("should accept the settings of GitLab-only features", () => {
+    const triage = parseCiConfig(
+      "profiles:\n  triage:\n    mode: triage\n    triage_dry_run: true\n",
+      "ci.yml",
+    );
+    expect(profileVariables(triage, "triage", "ci.yml")).toEqual({
+      CLAUDE_MODE: "triage",
+      CLAUDE_TRIAGE_DRY_RUN: "true",
+    });
+    expect(() =>
+      profileVariables(
+        parseCiConfig("defaults:\n  mode: review\n", "ci.yml"),
+        undefined,
+        "ci.yml",
+      ),
+    ).toThrow("defaults.mode in ci.yml must be one of run, triage, mention");
+  });
+
+  test("should list the available profiles for an unknown one", () => {
+    expect(() => profileVariables(config, "triage", ".claude/ci.yml")).toThrow(
+      "Profile triage is not defined in .claude/ci.yml; available profiles: review, docs",
+    );
+  });
+
+  test("should reject unknown settings and invalid values", () => {
+    expect(() =>
+      profileVariables(
+        parseCiConfig("profiles:\n  a:\n    max_turn: 5\n", "ci.yml"),
+        "a",
+        "ci.yml",
+      ),
+    ).toThrow("Unknown setting max_turn in profiles.a of ci.yml");
+    expect(() =>
+      profileVariables(
+        parseCiConfig("profiles:\n  a:\n    max_turns: 0\n", "ci.yml"),
+        "a",
+        "ci.yml",
+      ),
+    ).toThrow(
+      "profiles.a.max_turns in ci.yml must be a positive integer, got: 0",
+    );
+    expect(() =>
+      profileVariables(
+        parseCiConfig("defaults:\n  model: [a, b]\n", "ci.yml"),
+        undefined,
+        "ci.yml",
+      ),
+    ).toThrow("defaults.model in ci.yml must be a string, number or boolean");
+    expect(() =>
+      profileVariables(
+        parseCiConfig("defaults:\n  anthropic_api_key: sk-ant\n", "ci.yml"),
+        undefined,
+        "ci.yml",
+      ),
+    ).toThrow(
+      "defaults.anthropic_api_key in ci.yml must not be checked in; set ANTHROPIC_API_KEY as a masked CI/CD variable instead",
+    );
+  });
+
+  test("should reject credentials set through variables", () => {
+    const variables = (yaml: string) =>
+      profileVariables(
+        parseCiConfig(`defaults:\n  variables:\n${yaml}`, "ci.yml"),
+        undefined,
+        "ci.yml",
+      );
+
+    expect(() => variables("    GITLAB_TOKEN: glpat-secret\n")).toThrow(
+      "defaults.variables.GITLAB_TOKEN in ci.yml must not be checked in; set GITLAB_TOKEN as a masked CI/CD variable instead",
+    );
+    expect(() => variables("    AWS_SECRET_ACCESS_KEY: abc\n")).toThrow(
+      "must not be checked in",
+    );
+    expect(() => variables("    ANTHROPIC_API_KEY: sk-ant\n")).toThrow(
+      "must not be checked in",
+    );
+    expect(
+      variables("    CLAUDE_SESSION_KEY: shared\n    TEAM_NAME: docs\n"),
+    ).toEqual({ CLAUDE_SESSION_KEY: "shared", TEAM_NAME: "docs" });
+  });
+
+  test("should reject variables that redirect requests or change what runs", () => {
+    const variables = (yaml: string) =>
+      profileVariables(
+        parseCiConfig(`defaults:\n  variables:\n${yaml}`, "ci.yml"),
+        undefined,
+        "ci.yml",
+      );
+
+    expect(() =>
+      variables("    ANTHROPIC_BASE_URL: https://proxy.example.com\n"),
+    ).toThrow(
+      "defaults.variables.ANTHROPIC_BASE_URL in ci.yml must not be set in the config file; it changes where requests and credentials are sent",
+    );
+    expect(() => variables("    HTTPS_PROXY: http://proxy:8080\n")).toThrow(
+      "changes where requests and credentials are sent",
+    );
+    expect(() =>
+      variables("    GITLAB_API_URL: https://gitlab.example.com\n"),
+    ).toThrow("changes where requests and credentials are sent");
+    expect(() =>
+      variables("    CI_SERVER_URL: https://gitlab.example.com\n"),
+    ).toThrow("it is reserved for GitLab's own variables");
+    expect(() => variables("    NODE_OPTIONS: --require ./hook.js\n")).toThrow(
+      "it changes which programs and code the job runs",
+    );
+    expect(() => variables("    PATH: ./bin\n")).toThrow(
+      "it changes which programs and code the job runs",
+    );
+    expect(() => variables("    LD_PRELOAD: ./hook.so\n")).toThrow(
+      "it changes which programs and code the job runs",
+    );
+    expect(
+      variables(
+        "    ANTHROPIC_MODEL: claude-sonnet-4\n    AWS_REGION: us-east-1\n",
+      ),
+    ).toEqual({ ANTHROPIC_MODEL: "claude-sonnet-4", AWS_REGION: "us-east-1" });
+  });
+});
+
+describe("examples/gitlab-ci-config.yml", () => {
+  test("should be a valid config file for every profile", () => {
+    const path = join(
+      import.meta.dir,
+      "..",
+      "examples",
+      "gitlab-ci-config.yml",
+    );
+    const config = parseCiConfig(readFileSync(path, "utf-8"), path);
+
+    for (const profile of Object.keys(config.profiles ?? {})) {
+      expect(profileVariables(config, profile, path)).toHaveProperty(
+        "CLAUDE_MODEL",
+      );
+    }
+    expect(profileVariables(config, "review", path).CLAUDE_FINDINGS).toBe(
+      "true",
+    );
+  });
+});
+
+describe("parseCiConfig", () => {
+  test("should accept an empty file", () => {
+    expect(parseCiConfig("", "ci.yml")).toEqual({});
+  });
+
+  test("should reject unknown top-level keys and malformed YAML", () => {
+    expect(() => parseCiConfig("review:\n  model: x\n", "ci.yml")).toThrow(
+      "Unknown key review in ci.yml; expected defaults or profiles",
+    );
+    expect(() => parseCiConfig("profiles: [review]\n", "ci.yml")).toThrow(
+      "profiles in ci.yml must be a mapping",
+    );
+    expect(() => parseCiConfig("profiles: {\n", "ci.yml")).toThrow(
+      "Invalid YAML in ci.yml",
+    );
+  });
+});
+
+describe("loadCiConfig", () => {
+  async function withProject(
+    files: Record<string, string>,
+    fn: (dir: string) => Promise<void>,
+  ) {
+    const dir = await mkdtemp(join(tmpdir(), "ci-config-"));
+    try {
+      for (const [path, content] of Object.entries(files)) {
+        await mkdir(join(dir, path, ".."), { recursive: true });
+        await writeFile(join(dir, path), content);
+      }
+      await fn(dir);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  test("should read .claude/ci.yml from the project directory", async () => {
+    await withProject({ ".claude/ci.yml": CONFIG }, async (dir) => {
+      const config = await loadCiConfig({
+        CI_PROJECT_DIR: dir,
+        CLAUDE_PROFILE: "docs",
+      });
+
+      expect(config?.path).toBe(".claude/ci.yml");
+      expect(config?.profile).toBe("docs");
+      expect(config?.variables.CLAUDE_MODEL).toBe("claude-opus-4");
+    });
+  });
+
+  test("should read the file named by CLAUDE_CI_CONFIG", async () => {
+    await withProject({ "ci/claude.yml": CONFIG }, async (dir) => {
+      const config = await loadCiConfig({
+        CI_PROJECT_DIR: dir,
+        CLAUDE_CI_CONFIG: "ci/claude.yml",
+      });
+
+      expect(config?.variables.CLAUDE_TIMEOUT_MINUTES).toBe("15");
+    });
+  });
+
+  test("should only require the file when it is asked for", async () => {
+    await withProject({}, async (dir) => {
+      expect(await loadCiConfig({ CI_PROJECT_DIR: dir })).toBeUndefined();
+      await expect(
+        loadCiConfig({ CI_PROJECT_DIR: dir, CLAUDE_PROFILE: "review" }),
+      ).rejects.toThrow(
+        "Config file .claude/ci.yml does not exist (needed for profile review)",
+      );
+    });
+  });
+});
+
+describe("applyCiConfig", () => {
+  test("should not override variables set by the job or flags", () => {
+    const env: NodeJS.ProcessEnv = {
+      CLAUDE_MODEL: "claude-haiku-4",
+      CLAUDE_MAX_TURNS: "",
+    };
+    applyCiConfig(env, {
+      CLAUDE_MODEL: "claude-sonnet-4",
+      CLAUDE_MAX_TURNS: "20",
+      CLAUDE_PROMPT_FILE: "review.md",
+    });
+
+    expect(env).toEqual({
+      CLAUDE_MODEL: "claude-haiku-4",
+      CLAUDE_MAX_TURNS: "20",
+      CLAUDE_PROMPT_FILE: "review.md",
+    });
+  });
+});
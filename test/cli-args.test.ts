@@ -0,0 +1,112 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import { FLAGS, formatHelp, parseCliArgs } from "../gitlab/cli-args";
+
+describe("parseCliArgs", () => {
+  test("should map flags to the CI/CD variables they override", () => {
+    const args = parseCliArgs([
+      "--prompt-file",
+      "prompt.md",
+      "--allowed-tools=Read,Grep",
+      "--max-turns",
+      "5",
+      "--model",
+      "claude-sonnet-4",
+    ]);
+
+    expect(args).toEqual({
+      help: false,
+      env: {
+        CLAUDE_PROMPT_FILE: "prompt.md",
+        CLAUDE_ALLOWED_TOOLS: "Read,Grep",
+        CLAUDE_MAX_TURNS: "5",
+        CLAUDE_MODEL: "claude-sonnet-4",
+      },
+    });
+  });
+
+  test("should set the variables of GitLab-only settings", () => {
+    expect(
+      parseCliArgs(["--mode", "triage", "--issue-iid", "5", "--triage-dry-run"])
+        .env,
+    ).toEqual({
+      CLAUDE_MODE: "triage",
+      CLAUDE_ISSUE_IID: "5",
+      CLAUDE_TRIAGE_DRY_RUN: "true",
+    });
+    expect(
+      parseCliArgs(["--ci-config", "ci/claude.yml", "--profile=review"]).env,
+    ).toEqual({ CLAUDE_CI_CONFIG: "ci/claude.yml", CLAUDE_PROFILE: "review" });
+  });
+
+  test("should set boolean flags without a value", () => {
+    expect(parseCliArgs(["--use-bedrock", "--use-vertex=false"]).env).toEqual({
+      CLAUDE_USE_BEDROCK: "true",
+      CLAUDE_USE_VERTEX: "false",
+    });
+  });
+
+  test("should keep = in values", () => {
+    expect(parseCliArgs(["--prompt=a=b"]).env.CLAUDE_PROMPT).toBe("a=b");
+  });
+
+  test("should recognize --help", () => {
+    expect(parseCliArgs(["--help"]).help).toBe(true);
+    expect(parseCliArgs(["-h"]).help).toBe(true);
+  });
+
+  test("should reject unknown flags and arguments", () => {
+    expect(() => parseCliArgs(["--promt", "hi"])).toThrow(
+      "Unknown flag: --promt. Run with --help to list the flags.",
+    );
+    expect(() => parseCliArgs(["--use-node-cache"])).toThrow(
+      "Unknown flag: --use-node-cache",
+    );
+    // Credentials would show up in argv
+    expect(() => parseCliArgs(["--anthropic-api-key", "x"])).toThrow(
+      "Unknown flag: --anthropic-api-key",
+    );
+    expect(() => parseCliArgs(["--claude-code-oauth-token=x"])).toThrow(
+      "Unknown flag: --claude-code-oauth-token",
+    );
+    expect(() => parseCliArgs(["prompt.md"])).toThrow(
+      "Unexpected argument: prompt.md",
+    );
+  });
+
+  test("should validate values like the variables they set", () => {
+    expect(() => parseCliArgs(["--max-turns", "zero"])).toThrow(
+      "--max-turns must be a positive integer, got: zero",
+    );
+    expect(() => parseCliArgs(["--log-color=blue"])).toThrow(
+      "--log-color must be one of auto, always, never, got: blue",
+    );
+    expect(() => parseCliArgs(["--prompt"])).toThrow(
+      "--prompt requires a value",
+    );
+    expect(() => parseCliArgs(["--prompt-file", "--max-turns", "5"])).toThrow(
+      "--prompt-file requires a value",
+    );
+  });
+});
+
+describe("formatHelp", () => {
+  test("should list every flag with its variable and default", () => {
+    const help = formatHelp();
+
+    for (const flag of FLAGS) {
+      expect(help).toContain(flag.name);
+      expect(help).toContain(flag.input.gitlab);
+    }
+    expect(help).toMatch(
+      /--timeout-minutes <n>\s+CLAUDE_TIMEOUT_MINUTES, default: 10/,
+    );
+    expect(help).toMatch(
+      /--log-format <value>\s+CLAUDE_LOG_FORMAT, default: sections/,
+    );
+    expect(help).toMatch(
+      /--mode <run\|triage\|mention>\s+CLAUDE_MODE, default: run/,
+    );
+  });
+});
@@ -0,0 +1,115 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  extractFindings,
+  parseFindings,
+  stripFindingsBlock,
+} from "../gitlab/review-findings";
+import {
+  toCodeQualityReport,
+  writeCodeQualityReport,
+} from "../gitlab/code-quality";
+
+const resultText = `Found two problems.
+
+\`\`\`claude-findings
+[
+  {"file": "./src/app.ts", "line": 12, "severity": "major", "description": "Null dereference."},
+  {"file": "/builds/group/project/src/db.ts", "line": "3", "severity": "urgent", "description": "SQL built by string concatenation."},
+  {"file": "src/app.ts", "line": 0, "severity": "minor", "description": "Bad line."},
+  {"file": "src/app.ts", "severity": "minor"}
+]
+\`\`\``;
+
+describe("parseFindings", () => {
+  test("should normalize paths and severities and drop malformed entries", () => {
+    const invalid: string[] = [];
+    const findings = parseFindings(
+      resultText,
+      "/builds/group/project",
+      (message) => invalid.push(message),
+    );
+
+    expect(findings).toEqual([
+      {
+        file: "src/app.ts",
+        line: 12,
+        severity: "major",
+        description: "Null dereference.",
+      },
+      {
+        file: "src/db.ts",
+        line: 3,
+        severity: "info",
+        description: "SQL built by string concatenation.",
+      },
+    ]);
+    expect(invalid).toEqual([
+      "Skipping malformed finding #3",
+      "Skipping malformed finding #4",
+    ]);
+  });
+
+  test("should return no findings without a findings block", () => {
+    expect(parseFindings("All good!")).toEqual([]);
+  });
+
+  test("should report a block that is not valid JSON", () => {
+    const invalid: string[] = [];
+    const findings = parseFindings("```claude-findings\n[oops\n```", "", (m) =>
+      invalid.push(m),
+    );
+
+    expect(findings).toEqual([]);
+    expect(invalid[0]).toStartWith("Findings block is not valid JSON");
+  });
+});
+
+describe("extractFindings", () => {
+  test("should read findings from the final result event", () => {
+    const output = JSON.stringify({ type: "result", result: resultText });
+
+    expect(extractFindings(output, "/builds/group/project")).toHaveLength(2);
+  });
+});
+
+describe("stripFindingsBlock", () => {
+  test("should remove the machine-readable block", () => {
+    expect(stripFindingsBlock(resultText)).toBe("Found two problems.");
+  });
+});
+
+describe("toCodeQualityReport", () => {
+  test("should produce Code Quality issues with unique fingerprints", () => {
+    const finding = {
+      file: "src/app.ts",
+      line: 12,
+      severity: "major" as const,
+      description: "Null dereference.",
+    };
+    const report = toCodeQualityReport([finding, finding]);
+
+    expect(report).toHaveLength(1);
+    expect(report[0]).toEqual({
+      description: "Null dereference.",
+      check_name: "claude-code-review",
+      fingerprint: expect.stringMatching(/^[0-9a-f]{32}$/),
+      severity: "major",
+      location: { path: "src/app.ts", lines: { begin: 12 } },
+    });
+  });
+
+  test("should write the report as a JSON array", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "code-quality-"));
+    const path = join(dir, "gl-code-quality-report.json");
+
+    await writeCodeQualityReport(path, []);
+
+    expect(JSON.parse(await readFile(path, "utf-8"))).toEqual([]);
+    await rm(dir, { recursive: true, force: true });
+  });
+});
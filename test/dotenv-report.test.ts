@@ -0,0 +1,136 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DotenvReport, dotenvKey, dotenvValue } from "../gitlab/dotenv-report";
+
+describe("dotenvKey", () => {
+  test("should prefix and upper-case output names", () => {
+    expect(dotenvKey("execution_file")).toBe("CLAUDE_OUTPUT_EXECUTION_FILE");
+    expect(dotenvKey("cost-usd.total")).toBe("CLAUDE_OUTPUT_COST_USD_TOTAL");
+  });
+});
+
+describe("dotenvValue", () => {
+  test("should fold multiline values onto a single line", () => {
+    expect(dotenvValue("  first line\r\n  second line\n")).toBe(
+      "first line second line",
+    );
+  });
+});
+
+describe("DotenvReport", () => {
+  let dir: string;
+  let path: string;
+  let warnings: string[];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "claude-dotenv-"));
+    path = join(dir, "claude.env");
+    warnings = [];
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createReport(maxBytes = 5 * 1024, maxVariables = 20) {
+    return new DotenvReport(path, { maxBytes, maxVariables }, (message) =>
+      warnings.push(message),
+    );
+  }
+
+  test("should rewrite the file with every output set so far", () => {
+    const report = createReport();
+
+    report.set("conclusion", "failure");
+    report.set("execution_file", "/builds/p/claude-execution-output.json");
+    report.set("conclusion", "success");
+
+    expect(readFileSync(path, "utf8")).toBe(
+      "CLAUDE_OUTPUT_CONCLUSION=success\nCLAUDE_OUTPUT_EXECUTION_FILE=/builds/p/claude-execution-output.json\n",
+    );
+  });
+
+  test("should drop outputs beyond the variable limit", () => {
+    const report = createReport(5 * 1024, 2);
+
+    report.set("a", "1");
+    report.set("b", "2");
+    report.set("c", "3");
+    report.set("a", "4");
+
+    expect(readFileSync(path, "utf8")).toBe(
+      "CLAUDE_OUTPUT_A=4\nCLAUDE_OUTPUT_B=2\n",
+    );
+    expect(warnings).toEqual([
+      "Skipping output 'c': the dotenv report is limited to 2 variables",
+    ]);
+  });
+
+  test("should drop outputs that would exceed the size limit", () => {
+    const report = createReport(40);
+
+    report.set("conclusion", "success");
+    report.set("session_id", "x".repeat(40));
+
+    expect(readFileSync(path, "utf8")).toBe(
+      "CLAUDE_OUTPUT_CONCLUSION=success\n",
+    );
+    expect(warnings).toEqual([
+      "Skipping output 'session_id': the dotenv report would exceed 40 bytes",
+    ]);
+  });
+
+  test("should warn instead of throwing when the file cannot be written", () => {
+    const report = new DotenvReport(
+      join(dir, "missing", "claude.env"),
+      undefined,
+      (message) => warnings.push(message),
+    );
+
+    report.set("conclusion", "success");
+
+    expect(warnings[0]).toContain("Failed to write dotenv report");
+  });
+});
+
+describe("gitlab/cli.ts", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "claude-cli-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should report the failure when the job fails before Claude starts", () => {
+    const reportPath = join(dir, "claude.env");
+    const result = Bun.spawnSync(
+      ["bun", join(import.meta.dir, "..", "gitlab", "cli.ts")],
+      {
+        cwd: dir,
+        stderr: "pipe",
+        env: {
+          PATH: process.env.PATH,
+          CI_PROJECT_DIR: dir,
+          CLAUDE_DOTENV_REPORT: reportPath,
+          CLAUDE_PROMPT: "Review the code",
+          CLAUDE_MAX_TURNS: "abc",
+        },
+      },
+    );
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr.toString()).toContain(
+      "CLAUDE_MAX_TURNS must be a positive integer, got: abc",
+    );
+    expect(readFileSync(reportPath, "utf-8")).toBe(
+      "CLAUDE_OUTPUT_CONCLUSION=failure\n",
+    );
+  });
+});
@@ -0,0 +1,134 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  buildExternalAccountConfig,
+  isGcpWorkloadIdentityConfigured,
+  resolveWorkloadIdentityProvider,
+  validateGcpWorkloadIdentity,
+  writeExternalAccountCredentials,
+} from "../gitlab/gcp-oidc";
+
+const PROVIDER =
+  "projects/123456/locations/global/workloadIdentityPools/gitlab/providers/gitlab-com";
+
+describe("resolveWorkloadIdentityProvider", () => {
+  test("should accept the full resource name with or without the IAM prefix", () => {
+    expect(
+      resolveWorkloadIdentityProvider({
+        GCP_WORKLOAD_IDENTITY_PROVIDER: `//iam.googleapis.com/${PROVIDER}`,
+      }),
+    ).toBe(PROVIDER);
+  });
+
+  test("should assemble the resource name from its parts", () => {
+    expect(
+      resolveWorkloadIdentityProvider({
+        GCP_PROJECT_NUMBER: "123456",
+        GCP_WORKLOAD_IDENTITY_POOL_ID: "gitlab",
+        GCP_WORKLOAD_IDENTITY_PROVIDER_ID: "gitlab-com",
+      }),
+    ).toBe(PROVIDER);
+  });
+});
+
+describe("validateGcpWorkloadIdentity", () => {
+  test("should only be enabled by the pool or provider variables", () => {
+    expect(isGcpWorkloadIdentityConfigured({ GCP_ID_TOKEN: "token" })).toBe(
+      false,
+    );
+    expect(
+      isGcpWorkloadIdentityConfigured({ GCP_WORKLOAD_IDENTITY_POOL_ID: "p" }),
+    ).toBe(true);
+  });
+
+  test("should name the missing pool and provider inputs", () => {
+    expect(
+      validateGcpWorkloadIdentity({
+        GCP_WORKLOAD_IDENTITY_POOL_ID: "gitlab",
+        GCP_ID_TOKEN: "token",
+      }),
+    ).toEqual([
+      "Workload identity federation needs GCP_WORKLOAD_IDENTITY_PROVIDER, or all of GCP_PROJECT_NUMBER, GCP_WORKLOAD_IDENTITY_POOL_ID and GCP_WORKLOAD_IDENTITY_PROVIDER_ID. Missing: GCP_PROJECT_NUMBER, GCP_WORKLOAD_IDENTITY_PROVIDER_ID.",
+    ]);
+  });
+
+  test("should reject a malformed provider name and a missing token", () => {
+    const errors = validateGcpWorkloadIdentity({
+      GCP_WORKLOAD_IDENTITY_PROVIDER: "gitlab-com",
+    });
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain(
+      "GCP_WORKLOAD_IDENTITY_PROVIDER must look like projects/PROJECT_NUMBER",
+    );
+    expect(errors[1]).toContain("GCP_ID_TOKEN is required");
+  });
+
+  test("should pass with a provider and a token", () => {
+    expect(
+      validateGcpWorkloadIdentity({
+        GCP_WORKLOAD_IDENTITY_PROVIDER: PROVIDER,
+        GCP_ID_TOKEN: "token",
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("buildExternalAccountConfig", () => {
+  test("should add service account impersonation when configured", () => {
+    expect(
+      buildExternalAccountConfig(
+        PROVIDER,
+        "/tmp/token",
+        "claude@project.iam.gserviceaccount.com",
+      ),
+    ).toEqual({
+      type: "external_account",
+      audience: `//iam.googleapis.com/${PROVIDER}`,
+      subject_token_type: "urn:ietf:params:oauth:token-type:jwt",
+      token_url: "https://sts.googleapis.com/v1/token",
+      credential_source: { file: "/tmp/token" },
+      service_account_impersonation_url:
+        "https://iamcredentials.googleapis.com/v1/projects/-/serviceAccounts/claude@project.iam.gserviceaccount.com:generateAccessToken",
+    });
+  });
+});
+
+describe("writeExternalAccountCredentials", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "claude-gcp-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should write the token and a config that reads it", async () => {
+    const configFile = await writeExternalAccountCredentials(
+      { GCP_WORKLOAD_IDENTITY_PROVIDER: PROVIDER, GCP_ID_TOKEN: "id-token" },
+      dir,
+    );
+
+    const config = JSON.parse(readFileSync(configFile, "utf8"));
+    expect(config.audience).toBe(`//iam.googleapis.com/${PROVIDER}`);
+    expect(config.service_account_impersonation_url).toBeUndefined();
+    expect(readFileSync(config.credential_source.file, "utf8")).toBe(
+      "id-token",
+    );
+    expect(statSync(config.credential_source.file).mode & 0o777).toBe(0o600);
+  });
+
+  test("should throw the validation errors", async () => {
+    await expect(
+      writeExternalAccountCredentials({ GCP_PROJECT_NUMBER: "1" }, dir),
+    ).rejects.toThrow(
+      "Missing: GCP_WORKLOAD_IDENTITY_POOL_ID, GCP_WORKLOAD_IDENTITY_PROVIDER_ID.",
+    );
+  });
+});
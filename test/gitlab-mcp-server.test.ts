@@ -0,0 +1,245 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  addGitLabMcpServer,
+  createGitLabMcpServer,
+  GITLAB_MCP_SERVER_PATH,
+} from "../gitlab/gitlab-mcp-server";
+import { startMockGitLab, type MockGitLab } from "./mock-gitlab-server";
+
+describe("GitLab MCP server tools", () => {
+  let gitlab: MockGitLab;
+  let client: Client;
+
+  beforeEach(async () => {
+    gitlab = startMockGitLab({
+      "GET /projects/1/merge_requests/5": () => ({
+        body: { iid: 5, title: "Add parser", state: "opened" },
+      }),
+      "PUT /projects/1/merge_requests/5": (req) => ({
+        body: { iid: 5, ...req.body },
+      }),
+      "GET /projects/1/merge_requests/5/changes": () => ({
+        body: {
+          title: "Add parser",
+          description: "",
+          source_branch: "feature",
+          target_branch: "main",
+          changes: [
+            {
+              old_path: "a.ts",
+              new_path: "a.ts",
+              new_file: false,
+              deleted_file: false,
+              renamed_file: false,
+              diff: "@@ -1 +1 @@\n-a\n+b\n",
+            },
+          ],
+        },
+      }),
+      "POST /projects/1/issues/12/notes": () => ({
+        status: 201,
+        body: { id: 300 },
+      }),
+      "GET /projects/1/labels": () => ({
+        body: [{ name: "bug", description: null }],
+      }),
+      "PUT /projects/1/issues/12": () => ({ body: { iid: 12 } }),
+      "GET /projects/1/pipelines/40/jobs": () => ({
+        body: [
+          {
+            id: 77,
+            name: "test",
+            stage: "test",
+            status: "failed",
+            failure_reason: "script_failure",
+            web_url: "https://gitlab.example.com/jobs/77",
+            runner: { id: 1 },
+          },
+        ],
+      }),
+      "GET /projects/1/jobs/77/trace": () => ({
+        text: "line 1\nline 2\nFAILED: expected 1 to be 2\n",
+      }),
+      "GET /projects/1/jobs/78/trace": () => ({
+        status: 404,
+        body: { message: "404 Not found" },
+      }),
+    });
+
+    const server = createGitLabMcpServer({
+      apiUrl: gitlab.apiUrl,
+      projectId: "1",
+      token: "token",
+      tokenType: "private",
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    gitlab.stop();
+  });
+
+  async function callTool(name: string, args: Record<string, unknown> = {}) {
+    const result = (await client.callTool({ name, arguments: args })) as {
+      content: { type: string; text: string }[];
+      isError?: boolean;
+    };
+    return { text: result.content[0]!.text, isError: result.isError };
+  }
+
+  test("should list all tools", async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name).sort()).toEqual([
+      "apply_labels",
+      "create_note",
+      "get_job_log",
+      "get_merge_request",
+      "list_labels",
+      "list_merge_request_changes",
+      "list_pipeline_jobs",
+      "update_merge_request",
+    ]);
+  });
+
+  test("should get and update a merge request", async () => {
+    const { text } = await callTool("get_merge_request", { iid: 5 });
+    expect(JSON.parse(text)).toEqual({
+      iid: 5,
+      title: "Add parser",
+      state: "opened",
+    });
+
+    await callTool("update_merge_request", { iid: 5, description: "New" });
+    expect(gitlab.requests[1]!.body).toEqual({ description: "New" });
+  });
+
+  test("should list merge request changes", async () => {
+    const { text } = await callTool("list_merge_request_changes", { iid: 5 });
+
+    expect(JSON.parse(text)).toEqual([
+      {
+        oldPath: "a.ts",
+        newPath: "a.ts",
+        status: "modified",
+        diff: "@@ -1 +1 @@\n-a\n+b",
+      },
+    ]);
+  });
+
+  test("should mark notes it creates", async () => {
+    await callTool("create_note", {
+      noteable: "issue",
+      iid: 12,
+      body: "Looks like a bug.",
+    });
+
+    expect(gitlab.requests[0]!.body.body).toBe(
+      "<!-- claude-code-gitlab-ci:mcp -->\nLooks like a bug.",
+    );
+  });
+
+  test("should list and apply labels", async () => {
+    const { text } = await callTool("list_labels");
+    expect(JSON.parse(text)).toEqual([{ name: "bug", description: null }]);
+
+    await callTool("apply_labels", {
+      noteable: "issue",
+      iid: 12,
+      labels: ["bug", "docs"],
+    });
+    expect(gitlab.requests[1]!.body).toEqual({ add_labels: "bug,docs" });
+  });
+
+  test("should list pipeline jobs and read the end of a job log", async () => {
+    const jobs = await callTool("list_pipeline_jobs", { pipeline_id: 40 });
+    expect(JSON.parse(jobs.text)).toEqual([
+      {
+        id: 77,
+        name: "test",
+        stage: "test",
+        status: "failed",
+        failure_reason: "script_failure",
+        web_url: "https://gitlab.example.com/jobs/77",
+      },
+    ]);
+
+    const log = await callTool("get_job_log", { job_id: 77, max_bytes: 27 });
+    expect(log.text).toBe(
+      "[... 14 earlier bytes omitted ...]\nFAILED: expected 1 to be 2\n",
+    );
+  });
+
+  test("should report API errors as tool errors", async () => {
+    const { text, isError } = await callTool("get_job_log", { job_id: 78 });
+
+    expect(isError).toBe(true);
+    expect(text).toContain("failed with status 404");
+  });
+});
+
+describe("addGitLabMcpServer", () => {
+  const env = { CI_API_V4_URL: "https://gitlab.example.com/api/v4" };
+
+  test("should register the bundled server without leaking the token", () => {
+    const config = JSON.parse(
+      addGitLabMcpServer(undefined, {
+        ...env,
+        CI_PROJECT_ID: "1",
+        GITLAB_TOKEN: "glpat-secret",
+      }),
+    );
+
+    expect(config.mcpServers.gitlab).toEqual({
+      command: process.execPath,
+      args: ["run", GITLAB_MCP_SERVER_PATH],
+      env: {
+        CI_API_V4_URL: "https://gitlab.example.com/api/v4",
+        CI_PROJECT_ID: "1",
+      },
+    });
+    expect(JSON.stringify(config)).not.toContain("glpat-secret");
+  });
+
+  test("should merge into an existing config file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "claude-mcp-config-"));
+    try {
+      const path = join(dir, "mcp.json");
+      writeFileSync(
+        path,
+        JSON.stringify({ mcpServers: { other: { command: "other" } } }),
+      );
+
+      const config = JSON.parse(addGitLabMcpServer(path, env));
+
+      expect(Object.keys(config.mcpServers)).toEqual(["other", "gitlab"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should keep a user-configured gitlab server", () => {
+    const config = JSON.parse(
+      addGitLabMcpServer(
+        '{"mcpServers": {"gitlab": {"command": "docker"}}}',
+        env,
+      ),
+    );
+
+    expect(config.mcpServers.gitlab).toEqual({ command: "docker" });
+  });
+});
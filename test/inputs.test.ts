@@ -0,0 +1,219 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { parse } from "yaml";
+import {
+  findInput,
+  gitlabOnlyEnv,
+  inputEnv,
+  INPUTS,
+  readInputs,
+  type InputDefinition,
+} from "../src/inputs";
+
+type ActionYml = {
+  inputs: Record<string, { default?: string }>;
+  runs: { steps: { env?: Record<string, string> }[] };
+};
+
+const action: ActionYml = parse(
+  readFileSync(join(import.meta.dir, "..", "action.yml"), "utf-8"),
+);
+const schema = (INPUTS as readonly InputDefinition[]).filter(
+  (input) => !input.gitlabOnly,
+);
+
+describe("INPUTS", () => {
+  test("should declare every input of action.yml", () => {
+    expect(schema.map((input) => input.name).sort()).toEqual(
+      Object.keys(action.inputs).sort(),
+    );
+  });
+
+  test("should use the defaults of action.yml", () => {
+    for (const input of schema) {
+      const expected = action.inputs[input.name]?.default || undefined;
+      expect({ name: input.name, default: input.default }).toEqual({
+        name: input.name,
+        default: expected,
+      });
+    }
+  });
+
+  test("should match the variables action.yml passes to the run step", () => {
+    const stepEnv = Object.assign(
+      {},
+      ...action.runs.steps.map((step) => step.env ?? {}),
+    ) as Record<string, string>;
+
+    for (const input of schema.filter((input) => input.env)) {
+      expect({ name: input.name, value: stepEnv[input.env!] }).toEqual({
+        name: input.name,
+        value: expect.stringMatching(
+          new RegExp(`inputs\\.${input.name}\\b`),
+        ) as unknown as string,
+      });
+    }
+  });
+});
+
+describe("GitLab-only inputs", () => {
+  test("should have a GitLab variable and no action.yml variable", () => {
+    for (const input of (INPUTS as readonly InputDefinition[]).filter(
+      (input) => input.gitlabOnly,
+    )) {
+      expect({
+        name: input.name,
+        gitlab: input.gitlab,
+        env: input.env,
+      }).toEqual({
+        name: input.name,
+        gitlab: `CLAUDE_${input.name.toUpperCase()}`,
+        env: undefined,
+      });
+    }
+  });
+});
+
+describe("readInputs", () => {
+  test("should read GitHub inputs from the variables action.yml sets", () => {
+    const inputs = readInputs(
+      {
+        INPUT_PROMPT: "Fix the build",
+        INPUT_MAX_TURNS: "5",
+        ANTHROPIC_MODEL: "claude-sonnet-4",
+        CLAUDE_CODE_USE_BEDROCK: "1",
+      },
+      "github",
+    );
+
+    expect(inputs.prompt).toBe("Fix the build");
+    expect(inputs.max_turns).toBe("5");
+    expect(inputs.model).toBe("claude-sonnet-4");
+    expect(inputs.use_bedrock).toBe("true");
+    expect(inputs.use_vertex).toBe("false");
+    expect(inputs.timeout_minutes).toBe("10");
+    expect(inputs.log_format).toBe("json");
+  });
+
+  test("should read GitLab inputs from CLAUDE_ variables", () => {
+    const inputs = readInputs(
+      {
+        CLAUDE_ENV: "FOO: bar",
+        CLAUDE_MODEL: "claude-opus-4",
+        CLAUDE_USE_VERTEX: "true",
+        CLAUDE_TIMEOUT_MINUTES: "",
+      },
+      "gitlab",
+    );
+
+    expect(inputs.claude_env).toBe("FOO: bar");
+    expect(inputs.model).toBe("claude-opus-4");
+    expect(inputs.use_vertex).toBe("true");
+    expect(inputs.timeout_minutes).toBe("10");
+    expect(inputs.log_format).toBe("sections");
+    expect(inputs.anthropic_model).toBeUndefined();
+  });
+
+  test("should normalize GitLab-only inputs and ignore them on GitHub", () => {
+    const inputs = readInputs(
+      {
+        CLAUDE_MODE: "triage",
+        CLAUDE_ISSUE_IID: "5",
+        CLAUDE_TRIAGE_DRY_RUN: "1",
+        CLAUDE_POST_RESULT_NOTE: "TRUE",
+        CLAUDE_GITLAB_MCP: "0",
+      },
+      "gitlab",
+    );
+
+    expect(inputs.mode).toBe("triage");
+    expect(inputs.issue_iid).toBe("5");
+    expect(inputs.triage_dry_run).toBe("true");
+    expect(inputs.post_result_note).toBe("true");
+    expect(inputs.gitlab_mcp).toBe("false");
+    expect(inputs.auto_fix).toBe("false");
+    expect(inputs.trigger_phrase).toBe("@claude");
+    expect(
+      readInputs({ CLAUDE_MODE: "triage" }, "github").mode,
+    ).toBeUndefined();
+    expect(() => readInputs({ CLAUDE_MODE: "review" }, "gitlab")).toThrow(
+      "CLAUDE_MODE must be one of run, triage, mention, got: review",
+    );
+  });
+
+  test("should name the invalid input the way it was set", () => {
+    expect(() => readInputs({ INPUT_MAX_TURNS: "0" }, "github")).toThrow(
+      "max_turns must be a positive integer, got: 0",
+    );
+    expect(() => readInputs({ CLAUDE_MAX_TURNS: "many" }, "gitlab")).toThrow(
+      "CLAUDE_MAX_TURNS must be a positive integer, got: many",
+    );
+  });
+
+  test("should validate each input type", () => {
+    expect(() => readInputs({ CLAUDE_MAX_RETRIES: "-1" }, "gitlab")).toThrow(
+      "CLAUDE_MAX_RETRIES must be a non-negative integer, got: -1",
+    );
+    expect(() => readInputs({ CLAUDE_MAX_COST_USD: "free" }, "gitlab")).toThrow(
+      "CLAUDE_MAX_COST_USD must be a positive number, got: free",
+    );
+    expect(() => readInputs({ CLAUDE_LOG_COLOR: "blue" }, "gitlab")).toThrow(
+      "CLAUDE_LOG_COLOR must be one of auto, always, never, got: blue",
+    );
+    expect(() => readInputs({ CLAUDE_USE_BEDROCK: "yes" }, "gitlab")).toThrow(
+      'CLAUDE_USE_BEDROCK must be "true" or "false", got: yes',
+    );
+    expect(readInputs({ CLAUDE_MAX_RETRIES: "0" }, "gitlab").max_retries).toBe(
+      "0",
+    );
+  });
+});
+
+describe("inputEnv", () => {
+  test("should set the variables the shared runner reads", () => {
+    const env = inputEnv(
+      readInputs(
+        {
+          CLAUDE_ENV: "FOO: bar",
+          CLAUDE_MODEL: "claude-opus-4",
+          CLAUDE_USE_BEDROCK: "true",
+        },
+        "gitlab",
+      ),
+    );
+
+    expect(env.INPUT_CLAUDE_ENV).toBe("FOO: bar");
+    expect(env.ANTHROPIC_MODEL).toBe("claude-opus-4");
+    expect(env.CLAUDE_CODE_USE_BEDROCK).toBe("1");
+    expect(env.INPUT_TIMEOUT_MINUTES).toBe("10");
+    expect(env).not.toHaveProperty("CLAUDE_CODE_USE_VERTEX");
+    expect(env).not.toHaveProperty("INPUT_ENV");
+  });
+});
+
+describe("gitlabOnlyEnv", () => {
+  test("should set the normalized GitLab-only variables", () => {
+    const env = gitlabOnlyEnv(
+      readInputs(
+        { CLAUDE_SESSION_PERSIST: "1", CLAUDE_MODEL: "claude-opus-4" },
+        "gitlab",
+      ),
+    );
+
+    expect(env.CLAUDE_SESSION_PERSIST).toBe("true");
+    expect(env.CLAUDE_MODE).toBe("run");
+    expect(env).not.toHaveProperty("CLAUDE_MODEL");
+    expect(env).not.toHaveProperty("CLAUDE_SESSION_KEY");
+  });
+});
+
+describe("findInput", () => {
+  test("should find inputs by their action.yml name", () => {
+    expect(findInput("claude_env")?.gitlab).toBe("CLAUDE_ENV");
+    expect(findInput("use_node_cache")?.gitlab).toBeUndefined();
+    expect(findInput("unknown")).toBeUndefined();
+  });
+});
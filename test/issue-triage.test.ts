@@ -0,0 +1,207 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  applyIssueLabels,
+  buildTriagePrompt,
+  extractProposedLabels,
+  fetchIssueComments,
+  fetchProjectLabels,
+  selectExistingLabels,
+} from "../gitlab/issue-triage";
+import type { GitLabApiConfig } from "../gitlab/gitlab-api";
+import { promptInput } from "../gitlab/cli";
+import { preparePrompt } from "../src/prepare-prompt";
+import { startMockGitLab, type MockGitLab } from "./mock-gitlab-server";
+
+const labels = [
+  { name: "bug", description: "Something is broken" },
+  { name: "priority::high", description: null },
+  { name: "docs", description: null },
+];
+
+describe("buildTriagePrompt", () => {
+  test("should include labels, issue content and comments", () => {
+    const prompt = buildTriagePrompt(
+      {
+        iid: 12,
+        title: "Crash on startup",
+        description: "The app crashes when launched.",
+        labels: [],
+      },
+      labels,
+      [
+        {
+          body: "Same here on Linux",
+          system: false,
+          author: { username: "alice" },
+        },
+      ],
+    );
+
+    expect(prompt).toContain(
+      "<available_labels>\n- bug: Something is broken\n- priority::high\n- docs\n</available_labels>",
+    );
+    expect(prompt).toContain(
+      "Issue #12: Crash on startup\nCurrent labels: none",
+    );
+    expect(prompt).toContain("The app crashes when launched.");
+    expect(prompt).toContain("@alice wrote:\nSame here on Linux");
+    expect(prompt).toContain("```claude-labels");
+  });
+});
+
+describe("triage prompt", () => {
+  test("should not expand placeholders written in the issue", async () => {
+    const prompt = buildTriagePrompt(
+      {
+        iid: 12,
+        title: "Rendering {{ user.name }} shows nothing",
+        description: "The template prints {{ user.name }} as empty.",
+        labels: [],
+      },
+      labels,
+      [],
+    );
+
+    // Interpolation is enabled, but the triage prompt is not the user's own
+    const config = await preparePrompt(
+      promptInput(prompt, { prompt: "Unused" }, undefined, {}),
+    );
+
+    expect(await readFile(config.path, "utf-8")).toContain(
+      "Issue #12: Rendering {{ user.name }} shows nothing",
+    );
+  });
+});
+
+describe("extractProposedLabels", () => {
+  test("should read the labels block from the result", () => {
+    const output = JSON.stringify({
+      type: "result",
+      result:
+        'This is a bug.\n\n```claude-labels\n["bug", 3, "Priority::High"]\n```',
+    });
+
+    expect(extractProposedLabels(output)).toEqual(["bug", "Priority::High"]);
+  });
+
+  test("should return no labels without a block", () => {
+    const output = JSON.stringify({ type: "result", result: "No idea." });
+    expect(extractProposedLabels(output)).toEqual([]);
+  });
+});
+
+describe("selectExistingLabels", () => {
+  test("should keep only existing labels using their canonical names", () => {
+    expect(
+      selectExistingLabels(["Priority::High", "bug", "BUG", "wontfix"], labels),
+    ).toEqual({ labels: ["priority::high", "bug"], unknown: ["wontfix"] });
+  });
+});
+
+describe("GitLab API calls", () => {
+  let gitlab: MockGitLab;
+  let config: GitLabApiConfig;
+
+  beforeEach(() => {
+    gitlab = startMockGitLab({
+      "GET /projects/1/labels": (req) => ({
+        body:
+          req.query.get("page") === "1"
+            ? Array.from({ length: 100 }, (_, i) => ({
+                name: `label-${i}`,
+                description: null,
+              }))
+            : [{ name: "bug", description: null }],
+      }),
+      "GET /projects/1/issues/12/notes": () => ({
+        body: [
+          {
+            body: "added ~bug label",
+            system: true,
+            author: { username: "bob" },
+          },
+          { body: "Please fix", system: false, author: { username: "alice" } },
+        ],
+      }),
+      "PUT /projects/1/issues/12": (req) => ({
+        body: {
+          iid: 12,
+          title: "t",
+          description: "",
+          labels: String(req.body.add_labels).split(","),
+        },
+      }),
+    });
+    config = {
+      apiUrl: gitlab.apiUrl,
+      projectId: "1",
+      token: "token",
+      tokenType: "private",
+    };
+  });
+
+  afterEach(() => {
+    gitlab.stop();
+  });
+
+  test("should fetch every page of labels", async () => {
+    const result = await fetchProjectLabels(config);
+
+    expect(result).toHaveLength(101);
+    expect(result[100]!.name).toBe("bug");
+  });
+
+  test("should skip system notes", async () => {
+    const notes = await fetchIssueComments(config, "12");
+
+    expect(notes.map((n) => n.body)).toEqual(["Please fix"]);
+    expect(gitlab.requests[0]!.query.get("sort")).toBe("asc");
+  });
+
+  test("should add labels without removing existing ones", async () => {
+    await applyIssueLabels(config, "12", ["bug", "priority::high"]);
+
+    expect(gitlab.requests[0]!.body).toEqual({
+      add_labels: "bug,priority::high",
+    });
+  });
+});
+
+describe("gitlab/cli.ts in triage mode", () => {
+  test("should fail before Claude runs with only the job token", () => {
+    const dir = mkdtempSync(join(tmpdir(), "triage-cli-"));
+    try {
+      const result = Bun.spawnSync(
+        ["bun", join(import.meta.dir, "..", "gitlab", "cli.ts")],
+        {
+          cwd: dir,
+          stderr: "pipe",
+          env: {
+            PATH: process.env.PATH,
+            HOME: dir,
+            CI_PROJECT_DIR: dir,
+            CI_API_V4_URL: "http://127.0.0.1:9/api/v4",
+            CI_PROJECT_ID: "1",
+            CI_JOB_TOKEN: "job-token",
+            ANTHROPIC_API_KEY: "sk-ant-test",
+            CLAUDE_MODE: "triage",
+            CLAUDE_ISSUE_IID: "12",
+          },
+        },
+      );
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toContain(
+        'CLAUDE_MODE "triage" requires GITLAB_TOKEN',
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
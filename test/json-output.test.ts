@@ -0,0 +1,201 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  compileJsonSchema,
+  ensureValidJsonOutput,
+  extractJsonOutput,
+  loadJsonSchema,
+  parseJsonSchemaRetries,
+  type ClaudeAttempt,
+} from "../src/json-output";
+import { findResultEvent, parseStreamJson } from "../src/stream-json";
+
+const SCHEMA = {
+  type: "object",
+  properties: { verdict: { enum: ["approve", "reject"] } },
+  required: ["verdict"],
+};
+
+function attempt(result: string, exitCode = 0): ClaudeAttempt {
+  return {
+    exitCode,
+    output: `${JSON.stringify({ type: "result", result, session_id: "session-1" })}\n`,
+  };
+}
+
+function block(value: unknown): string {
+  return `Done.\n\`\`\`claude-json\n${JSON.stringify(value)}\n\`\`\`\n`;
+}
+
+describe("loadJsonSchema", () => {
+  test("should accept an inline schema", async () => {
+    expect(await loadJsonSchema(` ${JSON.stringify(SCHEMA)}`)).toEqual(SCHEMA);
+  });
+
+  test("should read a schema file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "json-schema-"));
+    try {
+      const path = join(dir, "schema.json");
+      await writeFile(path, JSON.stringify(SCHEMA));
+      expect(await loadJsonSchema(path)).toEqual(SCHEMA);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should reject schemas that are not JSON objects", async () => {
+    await expect(loadJsonSchema("{ not json")).rejects.toThrow(
+      "Failed to parse JSON schema",
+    );
+    await expect(loadJsonSchema("/does/not/exist.json")).rejects.toThrow(
+      "Failed to read JSON schema file",
+    );
+  });
+});
+
+describe("compileJsonSchema", () => {
+  test("should reject invalid schemas", () => {
+    expect(() => compileJsonSchema({ type: "no-such-type" })).toThrow(
+      "Invalid JSON schema",
+    );
+  });
+});
+
+describe("parseJsonSchemaRetries", () => {
+  test("should default to 2 and reject negative numbers", () => {
+    expect(parseJsonSchemaRetries(undefined)).toBe(2);
+    expect(parseJsonSchemaRetries("0")).toBe(0);
+    expect(() => parseJsonSchemaRetries("-1")).toThrow(
+      "jsonSchemaRetries must be a non-negative integer, got: -1",
+    );
+  });
+});
+
+describe("extractJsonOutput", () => {
+  test("should use the last claude-json block", () => {
+    expect(
+      extractJsonOutput(
+        `${block({ draft: true })}\n${block({ draft: false })}`,
+      ),
+    ).toEqual({ draft: false });
+  });
+
+  test("should accept a response that is only JSON", () => {
+    expect(extractJsonOutput(' {"verdict": "approve"} ')).toEqual({
+      verdict: "approve",
+    });
+  });
+
+  test("should explain why no JSON was found", () => {
+    expect(() => extractJsonOutput("All done!")).toThrow(
+      "The response does not end with a claude-json code block",
+    );
+    expect(() => extractJsonOutput("```claude-json\n{,}\n```")).toThrow(
+      "The claude-json block is not valid JSON",
+    );
+  });
+});
+
+describe("ensureValidJsonOutput", () => {
+  const validate = compileJsonSchema(SCHEMA);
+
+  test("should not ask for a correction when the output is valid", async () => {
+    const result = await ensureValidJsonOutput(
+      attempt(block({ verdict: "approve" })),
+      validate,
+      2,
+      () => {
+        throw new Error("should not be called");
+      },
+    );
+
+    expect(result.check).toEqual({
+      valid: true,
+      value: { verdict: "approve" },
+    });
+  });
+
+  test("should resume the session with the errors until the output is valid", async () => {
+    const prompts: string[] = [];
+    const first = attempt(block({ verdict: "maybe" }));
+    const second = attempt(block({ verdict: "reject" }));
+
+    const result = await ensureValidJsonOutput(
+      first,
+      validate,
+      2,
+      async (prompt, sessionId) => {
+        expect(sessionId).toBe("session-1");
+        prompts.push(prompt);
+        return second;
+      },
+    );
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain(
+      "- /verdict must be equal to one of the allowed values",
+    );
+    expect(result.check).toEqual({ valid: true, value: { verdict: "reject" } });
+    expect(result.output).toBe(
+      `${first.output}${JSON.stringify({
+        type: "json_correction",
+        attempt: 1,
+        errors: ["/verdict must be equal to one of the allowed values"],
+      })}\n${second.output}`,
+    );
+  });
+
+  test("should keep the reply to a correction out of the run's result", async () => {
+    const first = attempt(`Looks good.\n${block({ verdict: "maybe" })}`);
+
+    const result = await ensureValidJsonOutput(first, validate, 2, async () =>
+      attempt(JSON.stringify({ verdict: "approve" })),
+    );
+
+    expect(result.check).toEqual({
+      valid: true,
+      value: { verdict: "approve" },
+    });
+    expect(findResultEvent(parseStreamJson(result.output))?.result).toBe(
+      `Looks good.\n${block({ verdict: "maybe" })}`,
+    );
+  });
+
+  test("should give up after the configured number of corrections", async () => {
+    let corrections = 0;
+
+    const result = await ensureValidJsonOutput(
+      attempt("No JSON here"),
+      validate,
+      2,
+      async () => {
+        corrections++;
+        return attempt(block({}));
+      },
+    );
+
+    expect(corrections).toBe(2);
+    expect(result.check).toEqual({
+      valid: false,
+      errors: ["/ must have required property 'verdict'"],
+    });
+  });
+
+  test("should not ask for a correction when Claude failed", async () => {
+    const result = await ensureValidJsonOutput(
+      attempt("", 1),
+      validate,
+      2,
+      () => {
+        throw new Error("should not be called");
+      },
+    );
+
+    expect(result.exitCode).toBe(1);
+    expect(result.check.valid).toBe(false);
+  });
+});
@@ -0,0 +1,160 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import {
+  LogSectionFormatter,
+  sectionEnd,
+  sectionStart,
+} from "../gitlab/log-sections";
+import { formatDuration } from "../src/stream-json";
+
+function event(value: object): string {
+  return `${JSON.stringify(value)}\n`;
+}
+
+function assistant(id: string, content: object[]): string {
+  return event({ type: "assistant", message: { id, content } });
+}
+
+function toolResult(toolUseId: string, text = "ok"): string {
+  return event({
+    type: "user",
+    message: {
+      content: [{ type: "tool_result", tool_use_id: toolUseId, content: text }],
+    },
+  });
+}
+
+// Keeps only the section markers and headers to make assertions readable
+function outline(log: string): string[] {
+  return log
+    .split("\n")
+    .filter((line) => line.includes("section_"))
+    .map((line) =>
+      line
+        .replace(/\x1b\[0K/g, "")
+        .replace(/section_(start|end):\d+:/, "$1 ")
+        .replace("\r", " | "),
+    );
+}
+
+describe("section markers", () => {
+  test("should follow GitLab's collapsible section format", () => {
+    expect(
+      sectionStart("claude_tool_1", "Tool Bash", 1700000000500, true),
+    ).toBe(
+      "\x1b[0Ksection_start:1700000000:claude_tool_1[collapsed=true]\r\x1b[0KTool Bash\n",
+    );
+    expect(sectionEnd("claude_tool_1", 1700000002000)).toBe(
+      "\x1b[0Ksection_end:1700000002:claude_tool_1\r\x1b[0K\n",
+    );
+  });
+
+  test("should format durations", () => {
+    expect(formatDuration(2345)).toBe("2.3s");
+    expect(formatDuration(125000)).toBe("2m 5s");
+  });
+});
+
+describe("LogSectionFormatter", () => {
+  test("should group turns and tool calls into sections", () => {
+    let time = 1700000000000;
+    const formatter = new LogSectionFormatter(() => time, 100);
+
+    let log = formatter.push(
+      event({ type: "system", subtype: "init", model: "m", tools: ["Bash"] }),
+    );
+    log += formatter.push(
+      assistant("msg_1", [{ type: "text", text: "Running tests" }]),
+    );
+    log += formatter.push(
+      assistant("msg_1", [
+        {
+          type: "tool_use",
+          id: "tool_1",
+          name: "Bash",
+          input: { command: "bun test\n--bail" },
+        },
+      ]),
+    );
+    time += 2500;
+    log += formatter.push(toolResult("tool_1"));
+    log += formatter.push(assistant("msg_2", [{ type: "text", text: "Done" }]));
+    log += formatter.push(event({ type: "result", result: "Done" }));
+
+    expect(outline(log)).toEqual([
+      "start claude_init_1[collapsed=true] | Claude session started (model m, 1 tools)",
+      "end claude_init_1 | ",
+      "start claude_turn_2 | Assistant turn 1",
+      "start claude_tool_3 | Tool Bash: bun test (2.5s)",
+      "end claude_tool_3 | ",
+      "end claude_turn_2 | ",
+      "start claude_turn_4 | Assistant turn 2",
+      "end claude_turn_4 | ",
+    ]);
+    expect(log).toContain('"text": "Running tests"');
+    expect(log.endsWith('"result": "Done"\n}\n')).toBe(true);
+  });
+
+  test("should collapse large tool sections", () => {
+    const formatter = new LogSectionFormatter(() => 0, 5);
+
+    let log = formatter.push(
+      assistant("msg_1", [
+        { type: "tool_use", id: "tool_1", name: "Read", input: {} },
+      ]),
+    );
+    log += formatter.push(toolResult("tool_1", "x"));
+
+    expect(outline(log)[1]).toBe(
+      "start claude_tool_2[collapsed=true] | Tool Read (0.0s)",
+    );
+  });
+
+  test("should give results of parallel tool calls their own section", () => {
+    const formatter = new LogSectionFormatter(() => 0, 100);
+
+    let log = formatter.push(
+      assistant("msg_1", [
+        {
+          type: "tool_use",
+          id: "a",
+          name: "Read",
+          input: { file_path: "a.ts" },
+        },
+        { type: "tool_use", id: "b", name: "Grep", input: { pattern: "x" } },
+      ]),
+    );
+    log += formatter.push(toolResult("a"));
+    log += formatter.push(toolResult("b"));
+
+    expect(outline(log + formatter.flush())).toEqual([
+      "start claude_turn_1 | Assistant turn 1",
+      "start claude_tool_2 | Tool Read: a.ts (waiting for result)",
+      "end claude_tool_2 | ",
+      "start claude_tool_3 | Result of Read: a.ts (0.0s)",
+      "end claude_tool_3 | ",
+      "start claude_tool_4 | Tool Grep: x (0.0s)",
+      "end claude_tool_4 | ",
+      "end claude_turn_1 | ",
+    ]);
+  });
+
+  test("should handle lines split across chunks and plain text", () => {
+    const formatter = new LogSectionFormatter(() => 0);
+    const line = event({ type: "custom", value: 1 });
+
+    expect(formatter.push(line.slice(0, 10))).toBe("");
+    expect(formatter.push(line.slice(10) + "plain output\n")).toBe(
+      '{\n  "type": "custom",\n  "value": 1\n}\nplain output\n',
+    );
+  });
+
+  test("should close open sections on flush", () => {
+    const formatter = new LogSectionFormatter(() => 0);
+
+    formatter.push(assistant("msg_1", [{ type: "text", text: "Working" }]));
+
+    expect(outline(formatter.flush())).toEqual(["end claude_turn_1 | "]);
+  });
+});
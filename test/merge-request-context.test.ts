@@ -0,0 +1,234 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { execFileSync } from "child_process";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  buildMergeRequestContext,
+  formatMergeRequestContext,
+  type MergeRequestContext,
+} from "../gitlab/merge-request-context";
+import { splitGitDiff } from "../gitlab/unified-diff";
+import { startMockGitLab } from "./mock-gitlab-server";
+
+const sampleDiff = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,2 +1,2 @@
+-const a = 1;
++const a = 2;
+ export { a };
+diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1 @@
++export const b = 1;
+diff --git a/old-name.md b/new-name.md
+similarity index 100%
+rename from old-name.md
+rename to new-name.md
+`;
+
+function makeContext(
+  overrides: Partial<MergeRequestContext> = {},
+): MergeRequestContext {
+  return {
+    iid: "7",
+    title: "Add feature",
+    description: "Implements the feature.",
+    sourceBranch: "feature",
+    targetBranch: "main",
+    files: splitGitDiff(sampleDiff),
+    ...overrides,
+  };
+}
+
+describe("splitGitDiff", () => {
+  test("should split files and detect their status", () => {
+    const files = splitGitDiff(sampleDiff);
+
+    expect(files.map((f) => [f.status, f.oldPath, f.newPath])).toEqual([
+      ["modified", "src/app.ts", "src/app.ts"],
+      ["added", "src/new.ts", "src/new.ts"],
+      ["renamed", "old-name.md", "new-name.md"],
+    ]);
+    expect(files[0]!.diff).toBe(
+      "@@ -1,2 +1,2 @@\n-const a = 1;\n+const a = 2;\n export { a };",
+    );
+    expect(files[2]!.diff).toBe("");
+  });
+});
+
+describe("formatMergeRequestContext", () => {
+  test("should include metadata, file list and diff", () => {
+    const text = formatMergeRequestContext(makeContext(), {
+      maxBytes: 10_000,
+      maxFileBytes: 10_000,
+    });
+
+    expect(text).toStartWith(
+      "<merge_request_context>\nMerge request !7: Add feature\nSource branch: feature\nTarget branch: main",
+    );
+    expect(text).toContain("Description:\nImplements the feature.");
+    expect(text).toContain(
+      "Changed files (3):\n- modified: src/app.ts\n- added: src/new.ts\n- renamed: old-name.md → new-name.md",
+    );
+    expect(text).toContain(
+      "+++ b/src/new.ts\n@@ -0,0 +1 @@\n+export const b = 1;",
+    );
+    expect(text).toEndWith("</merge_request_context>");
+  });
+
+  test("should truncate large file diffs", () => {
+    const longDiff = ["@@ -0,0 +1,50 @@"]
+      .concat(Array.from({ length: 50 }, (_, i) => `+line ${i}`))
+      .join("\n");
+    const text = formatMergeRequestContext(
+      makeContext({
+        files: [
+          {
+            oldPath: "big.txt",
+            newPath: "big.txt",
+            status: "added",
+            diff: longDiff,
+          },
+        ],
+      }),
+      { maxBytes: 10_000, maxFileBytes: 100 },
+    );
+
+    expect(text).toContain("+line 0\n");
+    expect(text).not.toContain("+line 49");
+    expect(text).toMatch(/\.\.\. \[diff truncated, \d+ more bytes\]/);
+  });
+
+  test("should omit diffs once the total limit is reached", () => {
+    const text = formatMergeRequestContext(makeContext(), {
+      maxBytes: 120,
+      maxFileBytes: 10_000,
+    });
+
+    expect(text).toContain("+const a = 2;");
+    expect(text).not.toContain("+export const b = 1;");
+    expect(text).toContain(
+      "Diff omitted for 1 file(s) because the context size limit was reached:\n- src/new.ts",
+    );
+  });
+});
+
+describe("buildMergeRequestContext", () => {
+  let repoDir: string;
+  let baseSha: string;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: repoDir, encoding: "utf-8" }).trim();
+
+  beforeAll(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), "mr-context-"));
+    git("init", "-q");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "Test");
+    await writeFile(join(repoDir, "README.md"), "hello\n");
+    git("add", ".");
+    git("commit", "-qm", "base");
+    baseSha = git("rev-parse", "HEAD");
+    await writeFile(join(repoDir, "README.md"), "hello world\n");
+    git("commit", "-qam", "change");
+  });
+
+  afterAll(async () => {
+    await rm(repoDir, { recursive: true, force: true });
+  });
+
+  test("should read the diff from local git", async () => {
+    const text = await buildMergeRequestContext(
+      {
+        CI_MERGE_REQUEST_IID: "3",
+        CI_MERGE_REQUEST_TITLE: "Update readme",
+        CI_MERGE_REQUEST_SOURCE_BRANCH_NAME: "docs",
+        CI_MERGE_REQUEST_TARGET_BRANCH_NAME: "main",
+        CI_MERGE_REQUEST_DIFF_BASE_SHA: baseSha,
+        CI_PROJECT_DIR: repoDir,
+      },
+      () => {
+        throw new Error("API should not be used");
+      },
+    );
+
+    expect(text).toContain("Merge request !3: Update readme");
+    expect(text).toContain("- modified: README.md");
+    expect(text).toContain("-hello\n+hello world");
+  });
+
+  test("should fail without the API fallback when git cannot diff", async () => {
+    await expect(
+      buildMergeRequestContext(
+        {
+          CI_MERGE_REQUEST_IID: "3",
+          CI_MERGE_REQUEST_DIFF_BASE_SHA: "0".repeat(40),
+          CI_PROJECT_DIR: repoDir,
+        },
+        () => {
+          throw new Error("API should not be used");
+        },
+      ),
+    ).rejects.toThrow("Set CLAUDE_MR_CONTEXT_API_FALLBACK=true");
+  });
+
+  test("should fall back to the merge request changes API", async () => {
+    const gitlab = startMockGitLab({
+      "GET /projects/5/merge_requests/3/changes": () => ({
+        body: {
+          title: "From API",
+          description: null,
+          source_branch: "docs",
+          target_branch: "main",
+          changes: [
+            {
+              old_path: "a.txt",
+              new_path: "a.txt",
+              new_file: true,
+              renamed_file: false,
+              deleted_file: false,
+              diff: "@@ -0,0 +1 @@\n+a\n",
+            },
+          ],
+        },
+      }),
+    });
+
+    try {
+      const text = await buildMergeRequestContext(
+        {
+          CI_MERGE_REQUEST_IID: "3",
+          CLAUDE_MR_CONTEXT_API_FALLBACK: "true",
+        },
+        () => ({
+          apiUrl: gitlab.apiUrl,
+          projectId: "5",
+          token: "token",
+          tokenType: "private",
+        }),
+      );
+
+      expect(text).toContain("Merge request !3: From API");
+      expect(text).toContain("- added: a.txt");
+      expect(text).toContain("+++ b/a.txt\n@@ -0,0 +1 @@\n+a");
+    } finally {
+      gitlab.stop();
+    }
+  });
+
+  test("should require a merge request pipeline", async () => {
+    await expect(
+      buildMergeRequestContext({}, () => {
+        throw new Error("unused");
+      }),
+    ).rejects.toThrow("CI_MERGE_REQUEST_IID is not set");
+  });
+});
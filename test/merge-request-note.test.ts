@@ -0,0 +1,251 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  formatFailureNote,
+  formatResultNote,
+  formatRunningNote,
+  postMergeRequestNote,
+  stickyNoteMarker,
+  upsertStickyNote,
+} from "../gitlab/merge-request-note";
+import {
+  GitLabApiError,
+  getGitLabApiConfig,
+  getGitLabWriteApiConfig,
+  type GitLabApiConfig,
+} from "../gitlab/gitlab-api";
+import { startMockGitLab, type MockGitLab } from "./mock-gitlab-server";
+
+const streamOutput = [
+  JSON.stringify({ type: "system", subtype: "init", session_id: "abc" }),
+  JSON.stringify({ type: "assistant", message: { content: [] } }),
+  JSON.stringify({
+    type: "result",
+    subtype: "success",
+    is_error: false,
+    result: "Looks good to me.",
+  }),
+].join("\n");
+
+describe("formatResultNote", () => {
+  test("should use the final result message", () => {
+    expect(formatResultNote(streamOutput)).toBe(
+      "### Claude Code result\n\nLooks good to me.",
+    );
+  });
+
+  test("should flag error results", () => {
+    const output = JSON.stringify({
+      type: "result",
+      subtype: "error_during_execution",
+      is_error: true,
+      result: "Something broke",
+    });
+    expect(formatResultNote(output)).toBe(
+      "### Claude Code finished with an error\n\nSomething broke",
+    );
+  });
+
+  test("should return undefined when there is no result", () => {
+    expect(formatResultNote("not json\n")).toBeUndefined();
+  });
+});
+
+describe("formatFailureNote", () => {
+  test("should report timeouts distinctly", () => {
+    expect(
+      formatFailureNote(124, "", "https://gitlab.example.com/-/jobs/1"),
+    ).toBe(
+      "### Claude Code timed out (exit code 124)\n\n[View job log](https://gitlab.example.com/-/jobs/1)",
+    );
+  });
+
+  test("should include the exit code and any result text", () => {
+    const output = JSON.stringify({
+      type: "result",
+      is_error: true,
+      result: "Max turns reached",
+    });
+    expect(formatFailureNote(1, output)).toBe(
+      "### Claude Code failed (exit code 1)\n\nMax turns reached",
+    );
+  });
+
+  test("should report budget stops distinctly", () => {
+    expect(formatFailureNote(1, "", undefined, true)).toBe(
+      "### Claude Code was stopped for exceeding its budget",
+    );
+  });
+});
+
+describe("formatRunningNote", () => {
+  test("should omit the job link when no URL is known", () => {
+    expect(formatRunningNote()).toBe("### Claude Code is running…");
+  });
+});
+
+describe("getGitLabApiConfig", () => {
+  test("should prefer GITLAB_TOKEN over CI_JOB_TOKEN", () => {
+    const config = getGitLabApiConfig({
+      CI_API_V4_URL: "https://gitlab.example.com/api/v4/",
+      CI_PROJECT_ID: "42",
+      GITLAB_TOKEN: "glpat-token",
+      CI_JOB_TOKEN: "job-token",
+    });
+
+    expect(config).toEqual({
+      apiUrl: "https://gitlab.example.com/api/v4",
+      projectId: "42",
+      token: "glpat-token",
+      tokenType: "private",
+    });
+  });
+
+  test("should fall back to CI_JOB_TOKEN", () => {
+    const config = getGitLabApiConfig({
+      CI_API_V4_URL: "https://gitlab.example.com/api/v4",
+      CI_PROJECT_ID: "42",
+      CI_JOB_TOKEN: "job-token",
+    });
+
+    expect(config.tokenType).toBe("job");
+  });
+
+  test("should list every missing variable", () => {
+    expect(() => getGitLabApiConfig({})).toThrow(
+      /CI_API_V4_URL is required[\s\S]*CI_PROJECT_ID is required[\s\S]*Either GITLAB_TOKEN or CI_JOB_TOKEN/,
+    );
+  });
+});
+
+describe("getGitLabWriteApiConfig", () => {
+  const env = {
+    CI_API_V4_URL: "https://gitlab.example.com/api/v4",
+    CI_PROJECT_ID: "42",
+  };
+
+  test("should require GITLAB_TOKEN", () => {
+    expect(
+      getGitLabWriteApiConfig("CLAUDE_POST_RESULT_NOTE", {
+        ...env,
+        GITLAB_TOKEN: "glpat-token",
+      }).token,
+    ).toBe("glpat-token");
+    expect(() =>
+      getGitLabWriteApiConfig("CLAUDE_POST_RESULT_NOTE", {
+        ...env,
+        CI_JOB_TOKEN: "job-token",
+      }),
+    ).toThrow("CLAUDE_POST_RESULT_NOTE requires GITLAB_TOKEN");
+  });
+});
+
+describe("postMergeRequestNote", () => {
+  let gitlab: MockGitLab;
+  let config: GitLabApiConfig;
+
+  beforeEach(() => {
+    gitlab = startMockGitLab({
+      "POST /projects/group/project/merge_requests/7/notes": (req) => ({
+        status: 201,
+        body: { id: 99, body: req.body.body },
+      }),
+    });
+    config = {
+      apiUrl: gitlab.apiUrl,
+      projectId: "group/project",
+      token: "glpat-token",
+      tokenType: "private",
+    };
+  });
+
+  afterEach(() => {
+    gitlab.stop();
+  });
+
+  test("should post the note with the private token", async () => {
+    const note = await postMergeRequestNote(config, "7", "Hello");
+
+    expect(note).toEqual({ id: 99, body: "Hello" });
+    expect(gitlab.requests).toHaveLength(1);
+    expect(gitlab.requests[0]!.path).toBe(
+      "/projects/group%2Fproject/merge_requests/7/notes",
+    );
+    expect(gitlab.requests[0]!.headers.get("PRIVATE-TOKEN")).toBe(
+      "glpat-token",
+    );
+    expect(gitlab.requests[0]!.body).toEqual({ body: "Hello" });
+  });
+
+  test("should raise GitLabApiError on API errors", async () => {
+    const error = await postMergeRequestNote(config, "8", "Hello").catch(
+      (e) => e,
+    );
+
+    expect(error).toBeInstanceOf(GitLabApiError);
+    expect(error.status).toBe(404);
+    expect(error.message).toContain("POST");
+  });
+});
+
+describe("upsertStickyNote", () => {
+  const marker = stickyNoteMarker("review");
+  let gitlab: MockGitLab;
+  let config: GitLabApiConfig;
+  let notePages: { id: number; body: string }[][];
+
+  beforeEach(() => {
+    notePages = [[]];
+    gitlab = startMockGitLab({
+      "GET /projects/1/merge_requests/7/notes": (req) => ({
+        body: notePages[Number(req.query.get("page")) - 1] ?? [],
+      }),
+      "POST /projects/1/merge_requests/7/notes": (req) => ({
+        status: 201,
+        body: { id: 1, body: req.body.body },
+      }),
+      "PUT /projects/1/merge_requests/7/notes/250": (req) => ({
+        body: { id: 250, body: req.body.body },
+      }),
+    });
+    config = {
+      apiUrl: gitlab.apiUrl,
+      projectId: "1",
+      token: "job-token",
+      tokenType: "job",
+    };
+  });
+
+  afterEach(() => {
+    gitlab.stop();
+  });
+
+  test("should create a marked note when none exists", async () => {
+    const note = await upsertStickyNote(config, "7", marker, "Running");
+
+    expect(note.body).toBe(`${marker}\nRunning`);
+    expect(gitlab.requests.map((r) => r.method)).toEqual(["GET", "POST"]);
+    expect(gitlab.requests[0]!.headers.get("JOB-TOKEN")).toBe("job-token");
+  });
+
+  test("should edit the previous note found on a later page", async () => {
+    notePages = [
+      Array.from({ length: 100 }, (_, i) => ({ id: i, body: "other" })),
+      [{ id: 250, body: `${marker}\nRunning` }],
+    ];
+
+    const note = await upsertStickyNote(config, "7", marker, "Done");
+
+    expect(note).toEqual({ id: 250, body: `${marker}\nDone` });
+    expect(gitlab.requests.map((r) => r.method)).toEqual(["GET", "GET", "PUT"]);
+  });
+
+  test("should ignore notes left by other jobs", async () => {
+    notePages = [[{ id: 250, body: `${stickyNoteMarker("docs")}\nDone` }]];
+
+    await upsertStickyNote(config, "7", marker, "Running");
+
+    expect(gitlab.requests.map((r) => r.method)).toEqual(["GET", "POST"]);
+  });
+});
@@ -0,0 +1,116 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import {
+  collectMetrics,
+  extractMetrics,
+  formatMetricsSummary,
+  metricsOutputs,
+} from "../src/metrics";
+import type { ResultEvent } from "../src/stream-json";
+
+const RESULT: ResultEvent = {
+  type: "result",
+  subtype: "success",
+  session_id: "session-123",
+  total_cost_usd: 0.123456,
+  num_turns: 4,
+  duration_ms: 38200,
+  usage: {
+    input_tokens: 1200,
+    output_tokens: 345,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 20480,
+  },
+};
+
+describe("metricsOutputs", () => {
+  test("should expose every metric of the result event", () => {
+    expect(metricsOutputs(extractMetrics(RESULT))).toEqual({
+      cost_usd: "0.123456",
+      input_tokens: "1200",
+      output_tokens: "345",
+      cache_creation_input_tokens: "0",
+      cache_read_input_tokens: "20480",
+      num_turns: "4",
+      duration_ms: "38200",
+      session_id: "session-123",
+    });
+  });
+
+  test("should leave out metrics the result event does not report", () => {
+    expect(
+      metricsOutputs(
+        extractMetrics({
+          type: "result",
+          num_turns: 1,
+          usage: { input_tokens: "many" as unknown as number },
+        }),
+      ),
+    ).toEqual({ num_turns: "1" });
+  });
+});
+
+describe("collectMetrics", () => {
+  test("should sum the metrics of every attempt", () => {
+    const metrics = collectMetrics([
+      { type: "system", subtype: "init", session_id: "session-123" },
+      {
+        type: "result",
+        subtype: "error_during_execution",
+        is_error: true,
+        session_id: "session-123",
+        total_cost_usd: 0.25,
+        num_turns: 2,
+        duration_ms: 1000,
+        usage: { input_tokens: 100, output_tokens: 10 },
+      },
+      { type: "retry", attempt: 1 },
+      { ...RESULT, session_id: "session-456" },
+    ]);
+
+    expect(metrics).toEqual({
+      costUsd: 0.373456,
+      inputTokens: 1300,
+      outputTokens: 355,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 20480,
+      numTurns: 6,
+      durationMs: 39200,
+      sessionId: "session-456",
+    });
+  });
+
+  test("should return undefined without a result event", () => {
+    expect(collectMetrics([{ type: "system" }])).toBeUndefined();
+  });
+});
+
+describe("formatMetricsSummary", () => {
+  test("should format the metrics as a Markdown table", () => {
+    expect(formatMetricsSummary(extractMetrics(RESULT), "success")).toBe(
+      [
+        "### Claude Code execution summary",
+        "",
+        "| Metric | Value |",
+        "| --- | --- |",
+        "| Conclusion | success |",
+        "| Cost | $0.1235 |",
+        "| Turns | 4 |",
+        "| Duration | 38.2s |",
+        "| Input tokens | 1,200 |",
+        "| Output tokens | 345 |",
+        "| Cache creation tokens | 0 |",
+        "| Cache read tokens | 20,480 |",
+        "| Session ID | `session-123` |",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("should only list the conclusion when no metrics are known", () => {
+    expect(formatMetricsSummary({}, "failure")).toContain(
+      "| --- | --- |\n| Conclusion | failure |\n",
+    );
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * A tiny stand-in for the GitLab REST API used by the GitLab adapter tests.
+ * Routes are keyed by "METHOD /path" (path without the /api/v4 prefix and
+ * without the query string); every request is recorded for assertions.
+ */
+
+export type RecordedRequest = {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  // Parsed JSON body of the request, empty without one
+  body: Record<string, unknown>;
+};
+
+export type MockResponse = {
+  status?: number;
+  body?: unknown;
+  // Plain-text response, e.g. a job log
+  text?: string;
+};
+
+export type MockRoute = (request: RecordedRequest) => MockResponse;
+
+export type MockGitLab = {
+  apiUrl: string;
+  requests: RecordedRequest[];
+  stop: () => void;
+};
+
+export function startMockGitLab(routes: Record<string, MockRoute>): MockGitLab {
+  const requests: RecordedRequest[] = [];
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      const path = url.pathname.replace(/^\/api\/v4/, "");
+      const text = await req.text();
+      const recorded: RecordedRequest = {
+        method: req.method,
+        path,
+        query: url.searchParams,
+        headers: req.headers,
+        body: text ? JSON.parse(text) : {},
+      };
+      requests.push(recorded);
+
+      const route = routes[`${req.method} ${decodeURIComponent(path)}`];
+      if (!route) {
+        return Response.json({ message: "404 Not Found" }, { status: 404 });
+      }
+
+      const response = route(recorded);
+      if (response.text !== undefined) {
+        return new Response(response.text, {
+          status: response.status ?? 200,
+        });
+      }
+      return Response.json(response.body ?? {}, {
+        status: response.status ?? 200,
+      });
+    },
+  });
+
+  return {
+    apiUrl: `http://localhost:${server.port}/api/v4`,
+    requests,
+    stop: () => server.stop(true),
+  };
+}
@@ -0,0 +1,399 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  buildMentionPrompt,
+  checkoutMergeRequest,
+  containsTrigger,
+  fetchAccessLevel,
+  fetchThreadNotes,
+  isBotNote,
+  MENTION_REPLY_MARKER,
+  parseAccessLevel,
+  parseNoteEvent,
+  readNotePayload,
+  replyToNote,
+  type NoteEvent,
+} from "../gitlab/note-trigger";
+import type { GitLabApiConfig } from "../gitlab/gitlab-api";
+import { promptInput } from "../gitlab/cli";
+import { preparePrompt } from "../src/prepare-prompt";
+import { startMockGitLab, type MockGitLab } from "./mock-gitlab-server";
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync(
+    "git",
+    ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+    { cwd, encoding: "utf8", stdio: "pipe" },
+  ).trim();
+}
+
+const mergeRequestPayload = {
+  object_kind: "note",
+  user: { id: 7, username: "alice", name: "Alice" },
+  object_attributes: {
+    id: 101,
+    note: "@claude please fix the failing test",
+    noteable_type: "MergeRequest",
+    discussion_id: "abc123",
+  },
+  merge_request: {
+    iid: 5,
+    title: "Add parser",
+    description: "Adds the parser.",
+    source_branch: "feature/parser",
+    target_branch: "main",
+    source_project_id: 42,
+    target_project_id: 42,
+  },
+};
+
+const issuePayload = {
+  object_kind: "note",
+  user: { id: 8, username: "bob" },
+  object_attributes: { id: 202, note: "@claude why?", noteable_type: "Issue" },
+  issue: { iid: 12, title: "Crash on startup", description: null },
+};
+
+describe("readNotePayload", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "claude-note-payload-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should read TRIGGER_PAYLOAD as a file variable", () => {
+    const path = join(dir, "payload.json");
+    writeFileSync(path, '{"object_kind":"note"}');
+
+    expect(readNotePayload({ TRIGGER_PAYLOAD: path })).toBe(
+      '{"object_kind":"note"}',
+    );
+  });
+
+  test("should accept inline JSON in TRIGGER_PAYLOAD", () => {
+    expect(readNotePayload({ TRIGGER_PAYLOAD: ' {"a":1}' })).toBe('{"a":1}');
+  });
+
+  test("should prefer CLAUDE_NOTE_PAYLOAD_FILE", () => {
+    const path = join(dir, "note.json");
+    writeFileSync(path, "from file");
+
+    expect(
+      readNotePayload({
+        CLAUDE_NOTE_PAYLOAD_FILE: path,
+        TRIGGER_PAYLOAD: "{}",
+      }),
+    ).toBe("from file");
+  });
+
+  test("should throw without a payload", () => {
+    expect(() => readNotePayload({})).toThrow("No note payload found");
+  });
+});
+
+describe("parseNoteEvent", () => {
+  test("should parse a merge request note", () => {
+    expect(parseNoteEvent(JSON.stringify(mergeRequestPayload))).toEqual({
+      noteId: 101,
+      discussionId: "abc123",
+      body: "@claude please fix the failing test",
+      author: { id: 7, username: "alice" },
+      noteable: {
+        type: "merge_request",
+        iid: 5,
+        title: "Add parser",
+        description: "Adds the parser.",
+        sourceBranch: "feature/parser",
+        targetBranch: "main",
+        fromFork: false,
+      },
+    });
+  });
+
+  test("should recognize merge requests from forks", () => {
+    const event = parseNoteEvent(
+      JSON.stringify({
+        ...mergeRequestPayload,
+        merge_request: {
+          ...mergeRequestPayload.merge_request,
+          source_project_id: 99,
+        },
+      }),
+    );
+
+    expect(event.noteable).toMatchObject({ fromFork: true });
+  });
+
+  test("should parse an issue note", () => {
+    const event = parseNoteEvent(JSON.stringify(issuePayload));
+
+    expect(event.noteable).toEqual({
+      type: "issue",
+      iid: 12,
+      title: "Crash on startup",
+      description: null,
+    });
+    expect(event.discussionId).toBeUndefined();
+  });
+
+  test("should reject other payloads", () => {
+    expect(() =>
+      parseNoteEvent(JSON.stringify({ object_kind: "push" })),
+    ).toThrow("Expected a note webhook payload");
+    expect(() =>
+      parseNoteEvent(
+        JSON.stringify({
+          ...issuePayload,
+          object_attributes: { id: 1, note: "", noteable_type: "Commit" },
+        }),
+      ),
+    ).toThrow("Unsupported noteable type: Commit");
+  });
+});
+
+describe("containsTrigger", () => {
+  test("should match the phrase as a whole word", () => {
+    expect(containsTrigger("@claude fix it", "@claude")).toBe(true);
+    expect(containsTrigger("Thanks @claude!", "@claude")).toBe(true);
+    expect(containsTrigger("ping @claudebot", "@claude")).toBe(false);
+    expect(containsTrigger("me@claude.com", "@claude")).toBe(false);
+  });
+});
+
+describe("isBotNote", () => {
+  const event = parseNoteEvent(JSON.stringify(mergeRequestPayload));
+
+  test("should detect notes carrying the integration's marker", () => {
+    expect(
+      isBotNote({ ...event, body: `${MENTION_REPLY_MARKER}\n@claude done` }),
+    ).toBe(true);
+  });
+
+  test("should detect notes written by the token's user", () => {
+    expect(isBotNote(event, 7)).toBe(true);
+    expect(isBotNote(event, 99)).toBe(false);
+  });
+});
+
+describe("parseAccessLevel", () => {
+  test("should accept role names and numbers", () => {
+    expect(parseAccessLevel(undefined)).toBe(30);
+    expect(parseAccessLevel("Maintainer")).toBe(40);
+    expect(parseAccessLevel("20")).toBe(20);
+    expect(() => parseAccessLevel("admin")).toThrow("Invalid access level");
+  });
+});
+
+describe("buildMentionPrompt", () => {
+  test("should include the merge request, thread and comment", () => {
+    const event = parseNoteEvent(JSON.stringify(mergeRequestPayload));
+    const prompt = buildMentionPrompt(event, [
+      {
+        id: 100,
+        body: "This test is flaky",
+        system: false,
+        author: { username: "carol" },
+      },
+    ]);
+
+    expect(prompt).toContain(
+      "Merge request !5: Add parser\nSource branch: feature/parser (checked out in the working directory)\nTarget branch: main",
+    );
+    expect(prompt).toContain(
+      "<thread>\n@carol wrote:\nThis test is flaky\n</thread>",
+    );
+    expect(prompt).toContain(
+      "<comment>\n@alice wrote:\n@claude please fix the failing test\n</comment>",
+    );
+  });
+});
+
+describe("checkoutMergeRequest", () => {
+  let root: string;
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("should check out the merge request head as its source branch", async () => {
+    root = mkdtempSync(join(tmpdir(), "claude-mention-"));
+    const remote = join(root, "remote.git");
+    const work = join(root, "work");
+    git(root, "init", "--bare", "--quiet", remote);
+    git(root, "clone", "--quiet", remote, work);
+    git(work, "commit", "--quiet", "--allow-empty", "-m", "main");
+    git(work, "push", "--quiet", "origin", "HEAD:refs/heads/main");
+    git(work, "commit", "--quiet", "--allow-empty", "-m", "fix");
+    const head = git(work, "rev-parse", "HEAD");
+    // GitLab keeps this ref for every merge request, including ones from forks
+    git(work, "push", "--quiet", "origin", "HEAD:refs/merge-requests/5/head");
+    git(work, "checkout", "--quiet", "--detach", "origin/main");
+
+    const event = parseNoteEvent(JSON.stringify(mergeRequestPayload));
+    if (event.noteable.type !== "merge_request") {
+      throw new Error("expected a merge request note");
+    }
+
+    expect(await checkoutMergeRequest(event.noteable, work)).toBe(head);
+    expect(git(work, "rev-parse", "--abbrev-ref", "HEAD")).toBe(
+      "feature/parser",
+    );
+  });
+});
+
+describe("mention prompt", () => {
+  test("should not expand placeholders written in comments", async () => {
+    const event = parseNoteEvent(
+      JSON.stringify({
+        ...mergeRequestPayload,
+        object_attributes: {
+          ...mergeRequestPayload.object_attributes,
+          note: "@claude why does {{ user.name }} render empty?",
+        },
+      }),
+    );
+    const prompt = buildMentionPrompt(event, []);
+
+    // Interpolation is enabled, but the mention prompt is not the user's own
+    const config = await preparePrompt(
+      promptInput(prompt, { prompt: "Unused" }, undefined, {}),
+    );
+
+    expect(await readFile(config.path, "utf-8")).toContain(
+      "@claude why does {{ user.name }} render empty?",
+    );
+  });
+});
+
+describe("GitLab API calls", () => {
+  let gitlab: MockGitLab;
+  let config: GitLabApiConfig;
+  let event: NoteEvent;
+
+  beforeEach(() => {
+    gitlab = startMockGitLab({
+      "GET /projects/1/members/all/7": () => ({ body: { access_level: 30 } }),
+      "GET /projects/1/members/all/8": () => ({
+        status: 404,
+        body: { message: "404 Not found" },
+      }),
+      "GET /projects/1/merge_requests/5/discussions/abc123": () => ({
+        body: {
+          notes: [
+            { id: 99, body: "added 1 commit", system: true, author: {} },
+            {
+              id: 100,
+              body: "This test is flaky",
+              system: false,
+              author: { username: "carol" },
+            },
+            {
+              id: 101,
+              body: "@claude please fix the failing test",
+              system: false,
+              author: { username: "alice" },
+            },
+          ],
+        },
+      }),
+      "POST /projects/1/merge_requests/5/discussions/abc123/notes": () => ({
+        status: 201,
+        body: { id: 150 },
+      }),
+      "POST /projects/1/issues/12/notes": () => ({
+        status: 201,
+        body: { id: 151 },
+      }),
+    });
+    config = {
+      apiUrl: gitlab.apiUrl,
+      projectId: "1",
+      token: "token",
+      tokenType: "private",
+    };
+    event = parseNoteEvent(JSON.stringify(mergeRequestPayload));
+  });
+
+  afterEach(() => {
+    gitlab.stop();
+  });
+
+  test("should return the member's access level, or 0 for non-members", async () => {
+    expect(await fetchAccessLevel(config, 7)).toBe(30);
+    expect(await fetchAccessLevel(config, 8)).toBe(0);
+  });
+
+  test("should fetch the thread without system notes or the trigger note", async () => {
+    const notes = await fetchThreadNotes(config, event);
+
+    expect(notes.map((note) => note.id)).toEqual([100]);
+  });
+
+  test("should reply in the discussion of the trigger note", async () => {
+    await replyToNote(config, event, "Done.");
+
+    expect(gitlab.requests[0]!.body).toEqual({
+      body: `${MENTION_REPLY_MARKER}\nDone.`,
+    });
+  });
+
+  test("should start a new thread without a discussion id", async () => {
+    const issueEvent = parseNoteEvent(JSON.stringify(issuePayload));
+
+    const note = await replyToNote(config, issueEvent, "Done.");
+
+    expect(note.id).toBe(151);
+  });
+});
+
+describe("gitlab/cli.ts in mention mode", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "mention-cli-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should fail before doing anything with only the job token", () => {
+    const payloadFile = join(dir, "payload.json");
+    writeFileSync(payloadFile, JSON.stringify(mergeRequestPayload));
+    const result = Bun.spawnSync(
+      ["bun", join(import.meta.dir, "..", "gitlab", "cli.ts")],
+      {
+        cwd: dir,
+        stdout: "pipe",
+        stderr: "pipe",
+        env: {
+          PATH: process.env.PATH,
+          HOME: dir,
+          CI_PROJECT_DIR: dir,
+          CI_API_V4_URL: "http://127.0.0.1:9/api/v4",
+          CI_PROJECT_ID: "1",
+          CI_JOB_TOKEN: "job-token",
+          ANTHROPIC_API_KEY: "sk-ant-test",
+          CLAUDE_MODE: "mention",
+          CLAUDE_NOTE_PAYLOAD_FILE: payloadFile,
+        },
+      },
+    );
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr.toString()).toContain(
+      'CLAUDE_MODE "mention" requires GITLAB_TOKEN',
+    );
+    expect(result.stdout.toString()).not.toContain("Checked out");
+  });
+});
@@ -0,0 +1,86 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LocalAdapter } from "../src/platform";
+import { GitHubAdapter } from "../src/github-adapter";
+import { GitLabAdapter } from "../gitlab/run-claude-gitlab";
+import { JsonRenderer } from "../src/transcript";
+import { LogSectionFormatter } from "../gitlab/log-sections";
+
+describe("LocalAdapter", () => {
+  test("should read inputs from INPUT_ variables", () => {
+    const adapter = new LocalAdapter({ INPUT_TIMEOUT_MINUTES: "5" });
+
+    expect(adapter.getInput("timeout_minutes")).toBe("5");
+    expect(adapter.getInput("max_turns")).toBeUndefined();
+  });
+
+  test("should write the summary to CLAUDE_SUMMARY_FILE", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "platform-"));
+    try {
+      const path = join(dir, "summary.md");
+      await new LocalAdapter({ CLAUDE_SUMMARY_FILE: path }).writeSummary(
+        "### Summary\n",
+      );
+
+      expect(await readFile(path, "utf-8")).toBe("### Summary\n");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should render the log as JSON by default", () => {
+    expect(new LocalAdapter({}).createLogRenderer({})).toBeInstanceOf(
+      JsonRenderer,
+    );
+  });
+});
+
+describe("GitHubAdapter", () => {
+  test("should keep files in RUNNER_TEMP and tell Claude about action inputs", () => {
+    const adapter = new GitHubAdapter({
+      RUNNER_TEMP: "/home/runner/work/_temp",
+      INPUT_ACTION_INPUTS_PRESENT: "1",
+    });
+
+    expect(adapter.tempDir()).toBe("/home/runner/work/_temp");
+    expect(adapter.outputDir()).toBe("/home/runner/work/_temp");
+    expect(adapter.claudeEnv()).toEqual({ GITHUB_ACTION_INPUTS: "1" });
+  });
+});
+
+describe("GitLabAdapter", () => {
+  const env = {
+    CI_PROJECT_DIR: "/builds/group/project",
+    CLAUDE_TIMEOUT_MINUTES: "15",
+    GITLAB_CI_MODE: "1",
+  };
+
+  test("should read inputs from CLAUDE_ variables", () => {
+    expect(new GitLabAdapter(env).getInput("timeout_minutes")).toBe("15");
+  });
+
+  test("should keep artifacts in the project directory", () => {
+    const adapter = new GitLabAdapter(env);
+
+    expect(adapter.tempDir()).toBe("/builds/group/project/.tmp");
+    expect(adapter.outputDir()).toBe("/builds/group/project");
+    expect(adapter.claudeEnv()).toEqual({ GITLAB_CI_INPUTS: "1" });
+  });
+
+  test("should fall back to the working directory outside CI", () => {
+    const adapter = new GitLabAdapter({});
+
+    expect(adapter.tempDir()).toBe(`${process.cwd()}/.tmp`);
+    expect(adapter.outputDir()).toBe(process.cwd());
+  });
+
+  test("should group the log into sections by default", () => {
+    expect(new GitLabAdapter(env).createLogRenderer({})).toBeInstanceOf(
+      LogSectionFormatter,
+    );
+  });
+});
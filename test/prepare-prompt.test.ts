@@ -56,6 +56,68 @@ describe("preparePrompt integration tests", () => {
     await unlink(testFilePath);
   });
 
+  test("should prepend context to an inline prompt", async () => {
+    const config = await preparePrompt({
+      prompt: "Review this",
+      promptFile: "",
+      context: "<context>details</context>",
+    });
+
+    expect(config.path).toBe("/tmp/claude-action/prompt.txt");
+    const fileContent = await readFile(config.path, "utf-8");
+    expect(fileContent).toBe("<context>details</context>\n\nReview this");
+  });
+
+  test("should prepend context to a prompt file without modifying it", async () => {
+    const testFilePath = "/tmp/test-prompt.txt";
+    await writeFile(testFilePath, "Prompt from file");
+
+    const config = await preparePrompt({
+      prompt: "",
+      promptFile: testFilePath,
+      context: "<context>details</context>",
+    });
+
+    expect(config.type).toBe("file");
+    expect(config.path).toBe("/tmp/claude-action/prompt.txt");
+    expect(await readFile(config.path, "utf-8")).toBe(
+      "<context>details</context>\n\nPrompt from file",
+    );
+    expect(await readFile(testFilePath, "utf-8")).toBe("Prompt from file");
+
+    await unlink(testFilePath);
+  });
+
+  test("should interpolate placeholders in a prompt file before adding context", async () => {
+    const testFilePath = "/tmp/test-prompt.txt";
+    await writeFile(testFilePath, "Review MR !{{ CI_MERGE_REQUEST_IID }}");
+
+    const config = await preparePrompt({
+      prompt: "",
+      promptFile: testFilePath,
+      context: "Description mentions {{ UNKNOWN }}",
+      variables: { CI_MERGE_REQUEST_IID: "7" },
+    });
+
+    expect(await readFile(config.path, "utf-8")).toBe(
+      "Description mentions {{ UNKNOWN }}\n\nReview MR !7",
+    );
+
+    await unlink(testFilePath);
+  });
+
+  test("should fail on unknown placeholders when interpolating", async () => {
+    await expect(
+      preparePrompt({
+        prompt: "Hello {{ ANTHROPIC_API_KEY }}",
+        promptFile: "",
+        variables: {},
+      }),
+    ).rejects.toThrow(
+      "Prompt contains unknown placeholders: 'ANTHROPIC_API_KEY'",
+    );
+  });
+
   test("should fail when neither prompt nor promptFile is provided", async () => {
     const input: PreparePromptInput = {
       prompt: "",
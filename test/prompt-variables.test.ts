@@ -0,0 +1,91 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import {
+  interpolatePrompt,
+  isSecretVariableName,
+  parseDeclaredVariables,
+  resolvePromptVariables,
+} from "../src/prompt-variables";
+
+describe("interpolatePrompt", () => {
+  test("should replace placeholders with and without spaces", () => {
+    expect(
+      interpolatePrompt(
+        "MR !{{ CI_MERGE_REQUEST_IID }} in {{CI_PROJECT_PATH}}",
+        {
+          CI_MERGE_REQUEST_IID: "7",
+          CI_PROJECT_PATH: "group/project",
+        },
+      ),
+    ).toBe("MR !7 in group/project");
+  });
+
+  test("should not interpolate expanded values again", () => {
+    expect(interpolatePrompt("{{ A }}", { A: "{{ B }}", B: "nested" })).toBe(
+      "{{ B }}",
+    );
+  });
+
+  test("should leave single braces alone", () => {
+    expect(interpolatePrompt("cost: $5 { not a placeholder }", {})).toBe(
+      "cost: $5 { not a placeholder }",
+    );
+  });
+
+  test("should list every unknown placeholder", () => {
+    expect(() =>
+      interpolatePrompt("{{ NOPE }} {{ ALSO_NOPE }} {{ NOPE }}", {}),
+    ).toThrow("Prompt contains unknown placeholders: 'NOPE', 'ALSO_NOPE'.");
+  });
+});
+
+describe("resolvePromptVariables", () => {
+  test("should expose allowlisted CI variables from the environment", () => {
+    const variables = resolvePromptVariables({
+      CI_PROJECT_PATH: "group/project",
+      ANTHROPIC_API_KEY: "sk-ant-secret",
+    });
+
+    expect(variables.CI_PROJECT_PATH).toBe("group/project");
+    expect(variables.CI_MERGE_REQUEST_IID).toBe("");
+    expect(variables).not.toHaveProperty("ANTHROPIC_API_KEY");
+  });
+
+  test("should include declared variables", () => {
+    const variables = resolvePromptVariables({ TEAM_NAME: "platform" }, [
+      "TEAM_NAME",
+    ]);
+
+    expect(variables.TEAM_NAME).toBe("platform");
+  });
+
+  test("should refuse to declare secret-looking variables", () => {
+    expect(() =>
+      resolvePromptVariables({}, [
+        "ANTHROPIC_API_KEY",
+        "CI_JOB_TOKEN",
+        "CLAUDE_ENV",
+        "not-valid",
+      ]),
+    ).toThrow(
+      /'ANTHROPIC_API_KEY' looks like a secret[\s\S]*'CI_JOB_TOKEN' looks like a secret[\s\S]*'CLAUDE_ENV' looks like a secret[\s\S]*'not-valid' is not a valid variable name/,
+    );
+  });
+});
+
+describe("isSecretVariableName", () => {
+  test("should flag common credential names", () => {
+    expect(isSecretVariableName("AWS_SECRET_ACCESS_KEY")).toBe(true);
+    expect(isSecretVariableName("CI_REGISTRY_PASSWORD")).toBe(true);
+    expect(isSecretVariableName("CI_JOB_JWT_V2")).toBe(true);
+    expect(isSecretVariableName("CI_PROJECT_PATH")).toBe(false);
+  });
+});
+
+describe("parseDeclaredVariables", () => {
+  test("should accept comma or newline separated names", () => {
+    expect(parseDeclaredVariables("A, B\nC,,")).toEqual(["A", "B", "C"]);
+    expect(parseDeclaredVariables(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import {
+  collectSecrets,
+  createRedactor,
+  parseRedactPatterns,
+  Redactor,
+} from "../src/redact";
+
+const API_KEY = "sk-ant-REDACTED";
+
+describe("Redactor", () => {
+  test("should mask every occurrence of a secret", () => {
+    const redactor = new Redactor([API_KEY]);
+
+    expect(redactor.redact(`key=${API_KEY} again ${API_KEY}`)).toBe(
+      "key=*** again ***",
+    );
+  });
+
+  test("should mask secrets as they appear inside JSON events", () => {
+    const secret = 'pa"ss\\word-123';
+    const redactor = new Redactor([secret]);
+
+    expect(redactor.redact(JSON.stringify({ output: `x ${secret} y` }))).toBe(
+      '{"output":"x *** y"}',
+    );
+  });
+
+  test("should mask multiline secrets line by line and skip short values", () => {
+    const redactor = new Redactor([
+      "-----BEGIN KEY-----\nMIIEvQIBADANBgkq\n-----END KEY-----",
+      "true",
+    ]);
+
+    expect(redactor.redact("MIIEvQIBADANBgkq is true")).toBe("*** is true");
+  });
+
+  test("should apply user-declared patterns", () => {
+    const redactor = new Redactor(
+      [],
+      parseRedactPatterns("ghp_[A-Za-z0-9]+\n"),
+    );
+
+    expect(redactor.redact("token ghp_abc123 and ghp_def")).toBe(
+      "token *** and ***",
+    );
+  });
+});
+
+describe("StreamRedactor", () => {
+  test("should mask a secret split across chunks", () => {
+    const stream = new Redactor([API_KEY]).stream();
+
+    let out = stream.push(`{"text":"${API_KEY.slice(0, 10)}`);
+    out += stream.push(`${API_KEY.slice(10)}"}\nnext `);
+    out += stream.push("line");
+    out += stream.flush();
+
+    expect(out).toBe('{"text":"***"}\nnext line');
+    expect(out).not.toContain(API_KEY.slice(0, 10));
+  });
+});
+
+describe("parseRedactPatterns", () => {
+  test("should reject invalid regular expressions", () => {
+    expect(() => parseRedactPatterns("valid\n(unclosed")).toThrow(
+      "Invalid redact pattern (unclosed",
+    );
+  });
+});
+
+describe("collectSecrets", () => {
+  test("should collect credential variables and claude_env values", () => {
+    expect(
+      collectSecrets({
+        ANTHROPIC_API_KEY: API_KEY,
+        CI_JOB_TOKEN: "glcbt-job-token",
+        CI_PROJECT_ID: "42",
+        INPUT_CLAUDE_ENV: "DATABASE_URL: postgres://user:pw@db/app\n# c: d",
+      }),
+    ).toEqual([API_KEY, "glcbt-job-token", "postgres://user:pw@db/app"]);
+  });
+
+  test("should build a redactor from the environment", () => {
+    const redactor = createRedactor({
+      GITLAB_TOKEN: "glpat-0123456789",
+      INPUT_REDACT_PATTERNS: "internal-[0-9]+",
+    });
+
+    expect(redactor.redact("glpat-0123456789 internal-42 CI_PROJECT_ID")).toBe(
+      "*** *** CI_PROJECT_ID",
+    );
+  });
+});
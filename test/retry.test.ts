@@ -0,0 +1,166 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import {
+  classifyFailure,
+  parseMaxRetries,
+  retryDelayMs,
+  runWithRetries,
+  type RetryableRun,
+  type RetryRecord,
+} from "../src/retry";
+
+const OVERLOADED =
+  'API Error: 529 {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}';
+
+function run(overrides: Partial<RetryableRun> = {}): RetryableRun {
+  return {
+    exitCode: 1,
+    output: "",
+    stderr: "",
+    budgetExceeded: false,
+    ...overrides,
+  };
+}
+
+function events(...lines: object[]): string {
+  return lines.map((line) => `${JSON.stringify(line)}\n`).join("");
+}
+
+describe("parseMaxRetries", () => {
+  test("should default to 2 and reject negative numbers", () => {
+    expect(parseMaxRetries("")).toBe(2);
+    expect(parseMaxRetries("0")).toBe(0);
+    expect(() => parseMaxRetries("-1")).toThrow(
+      "maxRetries must be a non-negative integer, got: -1",
+    );
+  });
+});
+
+describe("classifyFailure", () => {
+  test("should treat API errors in the result as transient", () => {
+    const output = events({
+      type: "result",
+      is_error: true,
+      result: OVERLOADED,
+    });
+
+    expect(classifyFailure(run({ output }))).toEqual({
+      transient: true,
+      reason: OVERLOADED,
+    });
+  });
+
+  test("should treat network errors on stderr as transient", () => {
+    expect(
+      classifyFailure(
+        run({ stderr: "Error: read ECONNRESET\n    at TLSWrap" }),
+      ),
+    ).toEqual({ transient: true, reason: "Error: read ECONNRESET" });
+  });
+
+  test("should not retry other failures", () => {
+    expect(
+      classifyFailure(
+        run({
+          output: events({ type: "result", subtype: "error_max_turns" }),
+        }),
+      ),
+    ).toEqual({
+      transient: false,
+      reason: "Claude reached the maximum number of turns",
+    });
+    expect(classifyFailure(run({ stderr: "Invalid API key\n" }))).toEqual({
+      transient: false,
+      reason: "Invalid API key",
+    });
+    expect(
+      classifyFailure(run({ stderr: OVERLOADED, budgetExceeded: true }))
+        .transient,
+    ).toBe(false);
+    expect(classifyFailure(run({ exitCode: 124, stderr: OVERLOADED }))).toEqual(
+      { transient: false, reason: "Claude timed out" },
+    );
+  });
+});
+
+describe("retryDelayMs", () => {
+  test("should double the delay with every retry, with jitter, up to a cap", () => {
+    expect(retryDelayMs(0, () => 0)).toBe(2500);
+    expect(retryDelayMs(0, () => 1)).toBe(5000);
+    expect(retryDelayMs(2, () => 1)).toBe(20000);
+    expect(retryDelayMs(10, () => 1)).toBe(60000);
+  });
+});
+
+describe("runWithRetries", () => {
+  const noSleep = async () => {};
+
+  test("should resume the failed session until a run succeeds", async () => {
+    const failed = run({
+      output: events(
+        { type: "system", subtype: "init", session_id: "session-1" },
+        { type: "result", is_error: true, result: OVERLOADED },
+      ),
+    });
+    const succeeded = run({ exitCode: 0, output: events({ type: "result" }) });
+    const attempts = [failed, succeeded];
+    const resumed: (string | undefined)[] = [];
+    const records: RetryRecord[] = [];
+
+    const result = await runWithRetries(
+      async (resumeSessionId) => {
+        resumed.push(resumeSessionId);
+        return attempts.shift()!;
+      },
+      2,
+      { sleep: noSleep, random: () => 0, onRetry: (r) => records.push(r) },
+    );
+
+    const record: RetryRecord = {
+      type: "retry",
+      attempt: 1,
+      exit_code: 1,
+      reason: OVERLOADED,
+      delay_ms: 2500,
+      resume_session_id: "session-1",
+    };
+    expect(resumed).toEqual([undefined, "session-1"]);
+    expect(records).toEqual([record]);
+    expect(result.exitCode).toBe(0);
+    expect(result.output).toBe(
+      `${failed.output}${JSON.stringify(record)}\n${succeeded.output}`,
+    );
+  });
+
+  test("should start over when the failed run had no session", async () => {
+    const resumed: (string | undefined)[] = [];
+
+    const result = await runWithRetries(
+      async (resumeSessionId) => {
+        resumed.push(resumeSessionId);
+        return run({ stderr: "TypeError: fetch failed" });
+      },
+      2,
+      { sleep: noSleep },
+    );
+
+    expect(resumed).toEqual([undefined, undefined, undefined]);
+    expect(result.exitCode).toBe(1);
+  });
+
+  test("should not retry permanent failures", async () => {
+    let attempts = 0;
+
+    await runWithRetries(
+      async () => {
+        attempts++;
+        return run({ stderr: "Error: Invalid API key" });
+      },
+      2,
+      { sleep: noSleep },
+    );
+
+    expect(attempts).toBe(1);
+  });
+});
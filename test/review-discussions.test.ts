@@ -0,0 +1,188 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { postReviewDiscussions } from "../gitlab/review-discussions";
+import { findLinePosition } from "../gitlab/unified-diff";
+import type { GitLabApiConfig } from "../gitlab/gitlab-api";
+import type { ReviewFinding } from "../gitlab/review-findings";
+import { startMockGitLab, type MockGitLab } from "./mock-gitlab-server";
+
+const appDiff = `@@ -1,4 +1,5 @@
+ import a from "a";
+-const x = 1;
++const x = 2;
++const y = 3;
+ export { x };
+ export default a;
+@@ -20,2 +21,2 @@ function tail() {
+-  return 1;
++  return 2;
+ }`;
+
+function finding(overrides: Partial<ReviewFinding>): ReviewFinding {
+  return {
+    file: "src/app.ts",
+    line: 2,
+    severity: "major",
+    description: "Magic number.",
+    ...overrides,
+  };
+}
+
+describe("findLinePosition", () => {
+  test("should map added lines to a new line only", () => {
+    expect(findLinePosition(appDiff, 3)).toEqual({ newLine: 3 });
+    expect(findLinePosition(appDiff, 21)).toEqual({ newLine: 21 });
+  });
+
+  test("should map context lines to old and new lines", () => {
+    expect(findLinePosition(appDiff, 1)).toEqual({ oldLine: 1, newLine: 1 });
+    expect(findLinePosition(appDiff, 4)).toEqual({ oldLine: 3, newLine: 4 });
+    expect(findLinePosition(appDiff, 22)).toEqual({ oldLine: 21, newLine: 22 });
+  });
+
+  test("should not position lines outside the hunks", () => {
+    expect(findLinePosition(appDiff, 10)).toBeUndefined();
+  });
+});
+
+describe("postReviewDiscussions", () => {
+  let gitlab: MockGitLab;
+  let config: GitLabApiConfig;
+  let existingDiscussions: { notes: { body: string }[] }[];
+
+  beforeEach(() => {
+    existingDiscussions = [];
+    gitlab = startMockGitLab({
+      "GET /projects/1/merge_requests/7/discussions": () => ({
+        body: existingDiscussions,
+      }),
+      "GET /projects/1/merge_requests/7/versions": () => ({
+        body: [
+          {
+            base_commit_sha: "base2",
+            start_commit_sha: "start2",
+            head_commit_sha: "head2",
+          },
+          {
+            base_commit_sha: "base1",
+            start_commit_sha: "start1",
+            head_commit_sha: "head1",
+          },
+        ],
+      }),
+      "GET /projects/1/merge_requests/7/changes": () => ({
+        body: {
+          title: "Change",
+          description: "",
+          source_branch: "feature",
+          target_branch: "main",
+          changes: [
+            {
+              old_path: "src/app.ts",
+              new_path: "src/app.ts",
+              new_file: false,
+              renamed_file: false,
+              deleted_file: false,
+              diff: appDiff,
+            },
+          ],
+        },
+      }),
+      "POST /projects/1/merge_requests/7/discussions": (req) =>
+        (req.body.position as { new_line?: number }).new_line === 21
+          ? {
+              status: 400,
+              body: {
+                message:
+                  '400 Bad request - Note {:line_code=>["can\'t be blank"]}',
+              },
+            }
+          : { status: 201, body: { id: "abc" } },
+      "POST /projects/1/merge_requests/7/notes": (req) => ({
+        status: 201,
+        body: { id: 5, body: req.body.body },
+      }),
+    });
+    config = {
+      apiUrl: gitlab.apiUrl,
+      projectId: "1",
+      token: "token",
+      tokenType: "private",
+    };
+  });
+
+  afterEach(() => {
+    gitlab.stop();
+  });
+
+  const posts = (path: string) =>
+    gitlab.requests.filter((r) => r.method === "POST" && r.path.endsWith(path));
+
+  test("should post positioned discussions using the latest diff refs", async () => {
+    const result = await postReviewDiscussions(config, "7", [
+      finding({ line: 2 }),
+      finding({ line: 4, description: "Unused export." }),
+    ]);
+
+    expect(result).toEqual({ posted: 2, duplicates: 0, unpositioned: 0 });
+    const discussions = posts("/discussions");
+    expect(discussions[0]!.body.position).toEqual({
+      position_type: "text",
+      base_sha: "base2",
+      start_sha: "start2",
+      head_sha: "head2",
+      old_path: "src/app.ts",
+      new_path: "src/app.ts",
+      new_line: 2,
+    });
+    expect(discussions[1]!.body.position).toMatchObject({ old_line: 3 });
+    expect(discussions[0]!.body.body).toContain("Magic number.");
+    expect(discussions[0]!.body.body).toMatch(
+      /<!-- claude-finding:[0-9a-f]{32} -->/,
+    );
+    expect(posts("/notes")).toHaveLength(0);
+  });
+
+  test("should fall back to a summary note for findings it cannot position", async () => {
+    const result = await postReviewDiscussions(config, "7", [
+      finding({ line: 10, description: "Outside the diff." }),
+      finding({ file: "README.md", line: 1, description: "Not changed." }),
+      finding({ line: 21, description: "Rejected by GitLab." }),
+    ]);
+
+    expect(result).toEqual({ posted: 0, duplicates: 0, unpositioned: 3 });
+    const notes = posts("/notes");
+    expect(notes).toHaveLength(1);
+    expect(notes[0]!.body.body).toContain(
+      "- **major** `src/app.ts:10`: Outside the diff.",
+    );
+    expect(notes[0]!.body.body).toContain("`README.md:1`: Not changed.");
+    expect(notes[0]!.body.body).toContain(
+      "`src/app.ts:21`: Rejected by GitLab.",
+    );
+  });
+
+  test("should skip findings posted by an earlier run", async () => {
+    const first = await postReviewDiscussions(config, "7", [
+      finding({ line: 2 }),
+      finding({ line: 10, description: "Outside the diff." }),
+    ]);
+    expect(first.posted).toBe(1);
+    expect(first.unpositioned).toBe(1);
+
+    existingDiscussions = gitlab.requests
+      .filter((r) => r.method === "POST")
+      .map((r) => ({ notes: [{ body: String(r.body.body) }] }));
+    gitlab.requests.length = 0;
+
+    const second = await postReviewDiscussions(config, "7", [
+      finding({ line: 2 }),
+      finding({ line: 10, description: "Outside the diff." }),
+      finding({ line: 2 }),
+    ]);
+
+    expect(second).toEqual({ posted: 0, duplicates: 3, unpositioned: 0 });
+    expect(gitlab.requests.map((r) => r.method)).toEqual(["GET"]);
+  });
+});
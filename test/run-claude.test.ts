@@ -1,7 +1,21 @@
 #!/usr/bin/env bun
 
-import { describe, test, expect } from "bun:test";
-import { prepareRunConfig, type ClaudeOptions } from "../src/run-claude";
+import { describe, test, expect, setSystemTime } from "bun:test";
+import {
+  chmodSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LocalAdapter } from "../src/platform";
+import {
+  prepareRunConfig,
+  runClaude,
+  type ClaudeOptions,
+} from "../src/run-claude";
 
 describe("prepareRunConfig", () => {
   test("should prepare config with basic arguments", () => {
@@ -96,6 +110,16 @@ describe("prepareRunConfig", () => {
     expect(prepared.claudeArgs).toContain("claude-sonnet-4-20250514");
   });
 
+  test("should resume the given session", () => {
+    const options: ClaudeOptions = {
+      resumeSessionId: "session-123",
+    };
+    const prepared = prepareRunConfig("/tmp/test-prompt.txt", options);
+
+    expect(prepared.claudeArgs).toContain("--resume");
+    expect(prepared.claudeArgs).toContain("session-123");
+  });
+
   test("should use provided prompt path", () => {
     const options: ClaudeOptions = {};
     const prepared = prepareRunConfig("/custom/prompt/path.txt", options);
@@ -199,6 +223,27 @@ describe("prepareRunConfig", () => {
     });
   });
 
+  describe("budget validation", () => {
+    test("should pass budget limits to the runner", () => {
+      const options: ClaudeOptions = {
+        maxCostUsd: "1.25",
+        maxTotalTokens: "500000",
+      };
+      const prepared = prepareRunConfig("/tmp/test-prompt.txt", options);
+      expect(prepared.budget).toEqual({
+        maxCostUsd: 1.25,
+        maxTotalTokens: 500000,
+      });
+    });
+
+    test("should throw error for an invalid maxCostUsd", () => {
+      const options: ClaudeOptions = { maxCostUsd: "-2" };
+      expect(() => prepareRunConfig("/tmp/test-prompt.txt", options)).toThrow(
+        "maxCostUsd must be a positive number, got: -2",
+      );
+    });
+  });
+
   describe("timeoutMinutes validation", () => {
     test("should accept valid timeoutMinutes value", () => {
       const options: ClaudeOptions = { timeoutMinutes: "15" };
@@ -295,3 +340,57 @@ describe("prepareRunConfig", () => {
     });
   });
 });
+
+describe("runClaude", () => {
+  test("should keep JSON corrections within timeout_minutes", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "claude-run-"));
+    const path = process.env.PATH;
+    const cwd = process.cwd();
+    // Stands in for the CLI: counts its runs and never answers with JSON
+    writeFileSync(
+      join(dir, "claude"),
+      `#!/bin/sh
+cat > /dev/null
+echo run >> "${dir}/runs"
+echo '{"type":"result","subtype":"success","is_error":false,"result":"not json","session_id":"s1"}'
+`,
+    );
+    chmodSync(join(dir, "claude"), 0o755);
+    writeFileSync(join(dir, "prompt.txt"), "Review the code");
+
+    // The first attempt uses up the whole timeout before the correction
+    class SlowAdapter extends LocalAdapter {
+      warning(message: string): void {
+        super.warning(message);
+        setSystemTime(new Date(Date.now() + 11 * 60 * 1000));
+      }
+      outputDir(): string {
+        return dir;
+      }
+    }
+
+    try {
+      // The execution file is built from output.txt in the working directory
+      process.chdir(dir);
+      process.env.PATH = `${dir}:${path}`;
+      const result = await runClaude(
+        join(dir, "prompt.txt"),
+        {
+          timeoutMinutes: "10",
+          jsonSchema: '{"type":"object"}',
+          maxRetries: "0",
+        },
+        new SlowAdapter({ RUNNER_TEMP: dir }),
+      );
+
+      expect(result.exitCode).toBe(124);
+      expect(result.conclusion).toBe("failure");
+      expect(readFileSync(join(dir, "runs"), "utf8")).toBe("run\n");
+    } finally {
+      process.env.PATH = path;
+      process.chdir(cwd);
+      setSystemTime();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
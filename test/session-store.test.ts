@@ -0,0 +1,189 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  claudeProjectDir,
+  findSessionId,
+  parseSessionStoreOptions,
+  restoreSession,
+  saveSession,
+  sessionKey,
+  type SessionStoreOptions,
+} from "../gitlab/session-store";
+import { Redactor } from "../src/redact";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("sessionKey", () => {
+  test("should key sessions by merge request, then branch", () => {
+    expect(
+      sessionKey({ CI_MERGE_REQUEST_IID: "12", CI_COMMIT_REF_SLUG: "fix-bug" }),
+    ).toBe("mr-12");
+    expect(sessionKey({ CI_COMMIT_REF_SLUG: "fix-bug" })).toBe(
+      "branch-fix-bug",
+    );
+    expect(
+      sessionKey({
+        CLAUDE_SESSION_KEY: "team/review",
+        CI_MERGE_REQUEST_IID: "12",
+      }),
+    ).toBe("team-review");
+    expect(sessionKey({})).toBeUndefined();
+  });
+});
+
+describe("parseSessionStoreOptions", () => {
+  test("should be disabled unless CLAUDE_SESSION_PERSIST is true", () => {
+    expect(
+      parseSessionStoreOptions({ CI_COMMIT_REF_SLUG: "main" }),
+    ).toBeUndefined();
+  });
+
+  test("should parse the settings", () => {
+    expect(
+      parseSessionStoreOptions({
+        CLAUDE_SESSION_PERSIST: "true",
+        CLAUDE_SESSION_MAX_AGE_HOURS: "24",
+        CLAUDE_SESSION_FRESH: "true",
+        CI_PROJECT_DIR: "/builds/group/project",
+        CI_MERGE_REQUEST_IID: "7",
+      }),
+    ).toEqual({
+      dir: "/builds/group/project/.claude-sessions",
+      key: "mr-7",
+      maxAgeHours: 24,
+      fresh: true,
+    });
+  });
+
+  test("should reject an invalid maximum age", () => {
+    expect(() =>
+      parseSessionStoreOptions({
+        CLAUDE_SESSION_PERSIST: "true",
+        CLAUDE_SESSION_MAX_AGE_HOURS: "forever",
+        CI_COMMIT_REF_SLUG: "main",
+      }),
+    ).toThrow("CLAUDE_SESSION_MAX_AGE_HOURS must be a positive number");
+  });
+});
+
+describe("claudeProjectDir", () => {
+  test("should mirror Claude Code's project directory naming", () => {
+    expect(
+      claudeProjectDir("/builds/group/my_project", {
+        CLAUDE_CONFIG_DIR: "/home/ci/.claude",
+      }),
+    ).toBe("/home/ci/.claude/projects/-builds-group-my-project");
+  });
+});
+
+describe("findSessionId", () => {
+  test("should return the last session reported by the run", () => {
+    const output = [
+      { type: "system", subtype: "init", session_id: "first" },
+      { type: "result", session_id: "second" },
+    ]
+      .map((event) => JSON.stringify(event))
+      .join("\n");
+
+    expect(findSessionId(output)).toBe("second");
+    expect(findSessionId("")).toBeUndefined();
+  });
+});
+
+describe("saveSession and restoreSession", () => {
+  let root: string;
+  let projectDir: string;
+  let store: SessionStoreOptions;
+  const logs: string[] = [];
+  const log = (message: string) => logs.push(message);
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "session-store-"));
+    projectDir = join(root, "claude", "projects", "-builds-project");
+    store = {
+      dir: join(root, "cache"),
+      key: "mr-7",
+      maxAgeHours: 24,
+      fresh: false,
+    };
+    logs.length = 0;
+    await mkdir(projectDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  test("should restore the saved transcript into a new container", async () => {
+    await writeFile(join(projectDir, "session-1.jsonl"), '{"turn":1}\n');
+    await saveSession(store, projectDir, "session-1", 0);
+
+    const newProjectDir = join(root, "other", "-builds-project");
+    expect(await restoreSession(store, newProjectDir, 2 * HOUR, log)).toBe(
+      "session-1",
+    );
+    expect(
+      await readFile(join(newProjectDir, "session-1.jsonl"), "utf-8"),
+    ).toBe('{"turn":1}\n');
+    expect(logs).toEqual(["Resuming session session-1 for mr-7"]);
+  });
+
+  test("should mask secrets in the saved transcript", async () => {
+    await writeFile(
+      join(projectDir, "session-1.jsonl"),
+      '{"output":"token glpat-1234567890"}\n',
+    );
+    await saveSession(
+      store,
+      projectDir,
+      "session-1",
+      0,
+      new Redactor(["glpat-1234567890"]),
+    );
+
+    expect(
+      await readFile(join(store.dir, "mr-7", "session-1.jsonl"), "utf-8"),
+    ).toBe('{"output":"token ***"}\n');
+  });
+
+  test("should only keep the latest session", async () => {
+    await writeFile(join(projectDir, "session-1.jsonl"), "{}\n");
+    await writeFile(join(projectDir, "session-2.jsonl"), "{}\n");
+    await saveSession(store, projectDir, "session-1", 0);
+    await saveSession(store, projectDir, "session-2", 0);
+
+    expect((await readdir(join(store.dir, "mr-7"))).sort()).toEqual([
+      "session-2.jsonl",
+      "session.json",
+    ]);
+  });
+
+  test("should start a new session when the stored one expired", async () => {
+    await writeFile(join(projectDir, "session-1.jsonl"), "{}\n");
+    await saveSession(store, projectDir, "session-1", 0);
+
+    expect(
+      await restoreSession(store, projectDir, 25 * HOUR, log),
+    ).toBeUndefined();
+    expect(logs[0]).toContain("older than 24 hours");
+    expect(await readdir(store.dir)).toEqual([]);
+  });
+
+  test("should ignore the stored session when asked to start fresh", async () => {
+    await writeFile(join(projectDir, "session-1.jsonl"), "{}\n");
+    await saveSession(store, projectDir, "session-1", 0);
+
+    expect(
+      await restoreSession({ ...store, fresh: true }, projectDir, 0, log),
+    ).toBeUndefined();
+  });
+
+  test("should start a new session when nothing was stored", async () => {
+    expect(await restoreSession(store, projectDir, 0, log)).toBeUndefined();
+    expect(logs).toEqual(["No stored session for mr-7; starting a new one"]);
+  });
+});
@@ -1,7 +1,8 @@
 #!/usr/bin/env bun
 
-import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
 import { setupClaudeCodeSettings } from "../src/setup-claude-code-settings";
+import { Redactor } from "../src/redact";
 import { tmpdir } from "os";
 import { mkdir, writeFile, readFile, rm, readdir } from "fs/promises";
 import { join } from "path";
@@ -148,6 +149,33 @@ describe("setupClaudeCodeSettings", () => {
     expect(settings.model).toBe("claude-opus-4-1-20250805");
   });
 
+  test("should redact secrets when logging existing settings", async () => {
+    await setupClaudeCodeSettings(
+      JSON.stringify({
+        env: { API_TOKEN: "env-secret-value" },
+        apiKeyHelper: "echo sk-ant-secret-key",
+      }),
+      testHomeDir,
+    );
+
+    const log = spyOn(console, "log").mockImplementation(() => {});
+    try {
+      await setupClaudeCodeSettings(
+        undefined,
+        testHomeDir,
+        undefined,
+        new Redactor(["sk-ant-secret-key"]),
+      );
+      const output = log.mock.calls.flat().join("\n");
+
+      expect(output).toContain('"API_TOKEN": "***"');
+      expect(output).toContain('"apiKeyHelper": "echo ***"');
+      expect(output).not.toContain("env-secret-value");
+    } finally {
+      log.mockRestore();
+    }
+  });
+
   test("should copy slash commands to .claude directory when path provided", async () => {
     const testSlashCommandsDir = join(testHomeDir, "test-slash-commands");
     await mkdir(testSlashCommandsDir, { recursive: true });
@@ -0,0 +1,153 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import {
+  createStreamRenderer,
+  JsonRenderer,
+  parseLogFormat,
+  resolveColor,
+  TranscriptRenderer,
+} from "../src/transcript";
+
+function event(value: object): string {
+  return `${JSON.stringify(value)}\n`;
+}
+
+const SESSION = [
+  event({ type: "system", subtype: "init", model: "m", tools: ["Bash"] }),
+  event({
+    type: "assistant",
+    message: {
+      content: [
+        { type: "text", text: "Running the tests.\n" },
+        { type: "tool_use", id: "t1", name: "Bash", input: { command: "ls" } },
+      ],
+    },
+  }),
+  event({
+    type: "user",
+    message: {
+      content: [
+        {
+          type: "tool_result",
+          tool_use_id: "t1",
+          content: [{ type: "text", text: "a\nb\nc\nd\n" }],
+        },
+      ],
+    },
+  }),
+  event({
+    type: "result",
+    subtype: "success",
+    result: "All done",
+    num_turns: 2,
+    duration_ms: 1500,
+    total_cost_usd: 0.01234,
+  }),
+].join("");
+
+describe("TranscriptRenderer", () => {
+  test("should render a session as a readable transcript", () => {
+    const renderer = new TranscriptRenderer(false, 2);
+
+    expect(renderer.push(SESSION) + renderer.flush()).toBe(
+      [
+        "Session started (model m, 1 tools)",
+        "",
+        "Running the tests.",
+        "",
+        "→ Bash ls",
+        "  a",
+        "  b",
+        "  … 2 more lines",
+        "",
+        "── Result ──",
+        "All done",
+        "",
+        "✓ success (2 turns, 1.5s, $0.0123)",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("should mark failed tool results and runs", () => {
+    const renderer = new TranscriptRenderer(false);
+
+    const out = renderer.push(
+      event({
+        type: "user",
+        message: {
+          content: [
+            { type: "tool_result", content: "not found", is_error: true },
+          ],
+        },
+      }) +
+        event({ type: "result", subtype: "error_max_turns", is_error: true }),
+    );
+
+    expect(out).toBe(
+      "  ✗ error\n  not found\n\n── Result ──\n✗ error_max_turns\n",
+    );
+  });
+
+  test("should only emit colour codes when enabled", () => {
+    expect(new TranscriptRenderer(false).push(SESSION)).not.toContain("\x1b[");
+    expect(new TranscriptRenderer(true).push(SESSION)).toContain(
+      "\x1b[36m→ Bash\x1b[0m ls",
+    );
+  });
+
+  test("should pass through lines that are not JSON", () => {
+    const renderer = new TranscriptRenderer(false);
+
+    expect(renderer.push('warning: something\n{"type":')).toBe(
+      "warning: something\n",
+    );
+    expect(renderer.flush()).toBe('{"type":\n');
+  });
+});
+
+describe("JsonRenderer", () => {
+  test("should pretty-print events split across chunks", () => {
+    const renderer = new JsonRenderer();
+    const line = event({ type: "system", subtype: "init" });
+
+    expect(renderer.push(line.slice(0, 5))).toBe("");
+    expect(renderer.push(line.slice(5))).toBe(
+      '{\n  "type": "system",\n  "subtype": "init"\n}\n',
+    );
+  });
+});
+
+describe("resolveColor", () => {
+  test("should only colour a terminal in auto mode", () => {
+    expect(resolveColor(undefined, { isTTY: true }, {})).toBe(true);
+    expect(resolveColor("auto", { isTTY: false }, {})).toBe(false);
+    expect(resolveColor("auto", { isTTY: true }, { NO_COLOR: "1" })).toBe(
+      false,
+    );
+  });
+
+  test("should let always and never override detection", () => {
+    expect(resolveColor("always", { isTTY: false }, {})).toBe(true);
+    expect(resolveColor("never", { isTTY: true }, {})).toBe(false);
+  });
+
+  test("should reject unknown modes", () => {
+    expect(() => resolveColor("sometimes", {}, {})).toThrow(
+      "logColor must be one of auto, always, never, got: sometimes",
+    );
+  });
+});
+
+describe("parseLogFormat", () => {
+  test("should default to json and reject unknown formats", () => {
+    expect(parseLogFormat(undefined)).toBe("json");
+    expect(
+      createStreamRenderer(parseLogFormat("transcript"), false),
+    ).toBeInstanceOf(TranscriptRenderer);
+    expect(() => parseLogFormat("xml")).toThrow(
+      "logFormat must be one of json, transcript, got: xml",
+    );
+  });
+});